@@ -1,6 +1,7 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
 import { z } from "zod";
 import { PhoneData } from "@/lib/csv-loader";
+import { formatPrice } from "@/lib/utils";
 
 // Initialize Gemini client
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
@@ -107,7 +108,7 @@ export async function compareAndSelectPhone(
   // Format phone data for Gemini
   const phoneDescriptions = phones.map(phone => `
 **${phone.name}** (ID: ${phone.id})
-- Price: ₹${phone.price_inr.toLocaleString('en-IN')}
+- Price: ${formatPrice(phone.price_inr, "INR")}
 - Brand: ${phone.brand}
 - Price Range: ${phone.price_range}
 - Battery: ${phone.battery_mah}mAh
@@ -125,7 +126,7 @@ export async function compareAndSelectPhone(
 
   const prompt = `You are a phone expert helping an Indian customer choose the best phone from the following options.
 
-**User's Budget:** ${budget ? `₹${budget.toLocaleString('en-IN')}` : 'Not specified'}
+**User's Budget:** ${budget ? formatPrice(budget, "INR") : 'Not specified'}
 **User's Priorities (in order of importance):** ${priorities.join(', ')}
 ${additionalRequirements ? `**Additional Requirements:** ${additionalRequirements}` : ''}
 
@@ -256,10 +257,3 @@ export async function compareWithGrounding(
     sources: [],
   };
 }
-
-/**
- * Simple helper to format price in Indian rupees
- */
-export function formatINR(amount: number): string {
-  return `₹${amount.toLocaleString('en-IN')}`;
-}
@@ -1,7 +1,9 @@
 import { GoogleGenAI } from "@google/genai";
 import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
-import { Phone, PhoneWithScore, UserConstraints, ComparisonDimension } from "@/core/referee-engine/types";
+import { Currency, Phone, PhoneWithScore, UserConstraints, ComparisonDimension } from "@/core/referee-engine/types";
+import { getPhonePrices } from "@/core/referee-engine/currency";
+import { formatPhonePrice, formatPriceTable } from "@/lib/utils";
 
 // Initialize AI client
 const ai = new GoogleGenAI({
@@ -56,7 +58,8 @@ const ParsedQuerySchema = z.object({
     budget: z.number().optional().describe("Maximum budget extracted from query"),
     priorities: z.array(z.enum([
         "battery_mah", "camera_mp", "screen_inches",
-        "storage_gb", "price_usd", "weight_grams", "processor_benchmark"
+        "storage_gb", "price", "weight_grams", "processor_benchmark",
+        "ram_gb", "refresh_rate_hz", "fast_charging_w"
     ])).describe("Dimensions mentioned, in order of importance"),
     require_5g: z.boolean().describe("Whether 5G was mentioned as required"),
     specific_phones: z.array(z.string()).describe("Any specific phone models mentioned"),
@@ -148,7 +151,9 @@ Be precise with numbers. Use the latest available data.
  */
 export async function generateAIComparison(
     phones: PhoneWithScore[],
-    userPriorities: ComparisonDimension[]
+    userPriorities: ComparisonDimension[],
+    currency: Currency = "USD",
+    region?: string
 ): Promise<AIResponse<AIComparison>> {
     const startTime = Date.now();
 
@@ -157,15 +162,18 @@ export async function generateAIComparison(
         camera_mp: "Camera Quality",
         screen_inches: "Screen Size",
         storage_gb: "Storage Capacity",
-        price_usd: "Value for Money",
+        price: "Value for Money",
         weight_grams: "Lightweight Design",
         processor_benchmark: "Performance",
+        ram_gb: "Memory (RAM)",
+        refresh_rate_hz: "Display Smoothness",
+        fast_charging_w: "Charging Speed",
     };
 
     const priorityList = userPriorities.map((p, i) => `${i + 1}. ${priorityNames[p]}`).join("\n");
 
     const phoneSpecs = phones.map(p => `
-**${p.phone.name}** ($${p.phone.price_usd})
+**${p.phone.name}** (${formatPhonePrice(p.phone, currency, region)})
 - Battery: ${p.phone.specs.battery_mah ?? "N/A"} mAh
 - Camera: ${p.phone.specs.camera_mp ?? "N/A"} MP
 - Screen: ${p.phone.specs.screen_inches ?? "N/A"}"
@@ -239,9 +247,12 @@ Dimension mapping:
 - camera/photo/video → camera_mp
 - screen/display → screen_inches
 - storage/space/memory → storage_gb
-- cheap/affordable/value/price → price_usd
+- cheap/affordable/value/price → price
 - light/lightweight/portable → weight_grams
 - fast/performance/gaming → processor_benchmark
+- ram/multitasking → ram_gb
+- smooth/high refresh → refresh_rate_hz
+- charging/fast charge → fast_charging_w
 `;
 
     const response = await ai.models.generateContent({
@@ -278,9 +289,12 @@ export async function generateEnhancedVerdict(
         camera_mp: "camera quality",
         screen_inches: "screen size",
         storage_gb: "storage",
-        price_usd: "value",
+        price: "value",
         weight_grams: "portability",
         processor_benchmark: "performance",
+        ram_gb: "multitasking",
+        refresh_rate_hz: "display smoothness",
+        fast_charging_w: "charging speed",
     };
 
     const topPriority = priorities[0] ? priorityNames[priorities[0]] : "overall value";
@@ -292,7 +306,7 @@ Context:
 - This phone ranked #${rank} out of ${competitors.length + 1} options
 - User's top priority: ${topPriority}
 - Competing against: ${competitors.join(", ")}
-- Price: $${phone.price_usd}
+- Price: ${formatPriceTable(getPhonePrices(phone))}
 - Key specs: ${phone.specs.battery_mah}mAh battery, ${phone.specs.camera_mp}MP camera
 
 Write ONE sentence in this format:
@@ -5,12 +5,30 @@ import {
   getPhonesInBudget,
   getPhonesByPriceRange,
   PhoneData,
+  resolvePhoneId,
 } from "@/lib/csv-loader";
 import {
   compareAndSelectPhone,
   compareWithGrounding,
   PhoneComparison,
 } from "@/ai/gemini-comparison";
+import {
+  generateAIComparison,
+  AIComparison,
+  GroundingSource,
+} from "@/ai/gemini-research";
+import {
+  evaluatePhones,
+  evaluateSelectedPhones,
+  ComparisonResult,
+  ComparisonDimension,
+  ComparisonDimensionSchema,
+  Phone,
+  UserConstraints,
+  UserConstraintsSchema,
+} from "@/core/referee-engine";
+import { getRegionCurrency } from "@/core/referee-engine/currency";
+import { loadCatalog } from "@/lib/catalog";
 
 export interface CompareState {
   comparison: PhoneComparison | null;
@@ -20,6 +38,172 @@ export interface CompareState {
   processingTime: number;
 }
 
+export interface RefereeState {
+  result: ComparisonResult | null;
+  aiAnalysis: AIComparison | null;
+  aiSources: GroundingSource[];
+  aiError: string | null;
+  error: string | null;
+}
+
+/**
+ * Build referee constraints from the ConstraintForm fields
+ */
+function parseConstraintForm(formData: FormData): UserConstraints {
+  const budgetStr = formData.get("budget") as string | null;
+  const budget = budgetStr ? parseFloat(budgetStr) : undefined;
+
+  const priorities = formData
+    .getAll("priorities")
+    .map(p => ComparisonDimensionSchema.safeParse(p))
+    .filter(p => p.success)
+    .map(p => p.data);
+
+  const requiredFeatures: Record<string, unknown> = {};
+  if (formData.get("require_5g") === "on") {
+    requiredFeatures.has_5g = true;
+  }
+
+  const bounds: Partial<Record<ComparisonDimension, { min?: number; max?: number }>> = {};
+  for (const dimension of ComparisonDimensionSchema.options) {
+    const min = formData.get(`min_${dimension}`) as string | null;
+    const max = formData.get(`max_${dimension}`) as string | null;
+    if (min || max) {
+      bounds[dimension] = {
+        min: min ? parseFloat(min) : undefined,
+        max: max ? parseFloat(max) : undefined,
+      };
+    }
+  }
+
+  const scheme = formData.get("weighting_scheme");
+  const weights: Partial<Record<ComparisonDimension, number>> = {};
+  if (scheme === "custom") {
+    for (const dimension of priorities) {
+      const weight = formData.get(`weight_${dimension}`) as string | null;
+      weights[dimension] = weight ? parseFloat(weight) : 0;
+    }
+  }
+
+  const region = (formData.get("region") as string | null) || "US";
+
+  const parsed = UserConstraintsSchema.safeParse({
+    budget,
+    region,
+    currency: formData.get("currency") || getRegionCurrency(region),
+    prioritized_dimensions: priorities,
+    normalization: formData.get("normalization") || undefined,
+    weighting_scheme: scheme && scheme !== "custom" ? scheme : undefined,
+    dimension_weights: scheme === "custom" ? weights : undefined,
+    required_features: Object.keys(requiredFeatures).length > 0 ? requiredFeatures : undefined,
+    dimension_bounds: Object.keys(bounds).length > 0 ? bounds : undefined,
+  });
+
+  if (!parsed.success) {
+    if (priorities.length === 0) {
+      throw new Error("Please select at least one priority");
+    }
+    throw new Error(parsed.error.errors.map(e => e.message).join(", "));
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Server Action: Run the deterministic referee engine on the constraint form.
+ * Gemini analysis is an optional second layer that only explains the engine's
+ * ranking; its failure never affects the deterministic result.
+ */
+export async function refereePhones(
+  _prevState: RefereeState,
+  formData: FormData
+): Promise<RefereeState> {
+  let result: ComparisonResult;
+
+  try {
+    const constraints = parseConstraintForm(formData);
+    result = evaluatePhones(loadCatalog(), constraints);
+  } catch (error) {
+    return {
+      result: null,
+      aiAnalysis: null,
+      aiSources: [],
+      aiError: null,
+      error: error instanceof Error ? error.message : "An unexpected error occurred",
+    };
+  }
+
+  const useAI = formData.get("use_ai") === "on";
+  if (!useAI || result.qualified_phones.length < 2) {
+    return { result, aiAnalysis: null, aiSources: [], aiError: null, error: null };
+  }
+
+  try {
+    const ai = await generateAIComparison(
+      result.qualified_phones,
+      result.constraints_used.prioritized_dimensions,
+      result.constraints_used.currency,
+      result.constraints_used.region
+    );
+    return { result, aiAnalysis: ai.data, aiSources: ai.sources, aiError: null, error: null };
+  } catch (error) {
+    console.error("AI analysis error:", error);
+    return {
+      result,
+      aiAnalysis: null,
+      aiSources: [],
+      aiError: error instanceof Error ? error.message : "AI analysis is unavailable",
+      error: null,
+    };
+  }
+}
+
+export interface SelectionState {
+  result: ComparisonResult | null;
+  error: string | null;
+}
+
+/**
+ * Server Action: Load the referee phone catalog for the selection picker
+ */
+export async function getRefereeCatalog(): Promise<Phone[]> {
+  try {
+    return loadCatalog();
+  } catch (error) {
+    console.error("Error loading referee catalog:", error);
+    return [];
+  }
+}
+
+/**
+ * Server Action: Referee a user-selected set of 2-5 phones
+ */
+export async function compareSelectedPhones(
+  phoneIds: string[],
+  priorities: ComparisonDimension[]
+): Promise<SelectionState> {
+  if (phoneIds.length < 2 || phoneIds.length > 5) {
+    return { result: null, error: "Select between 2 and 5 phones to compare" };
+  }
+
+  const parsedPriorities = UserConstraintsSchema.shape.prioritized_dimensions.safeParse(priorities);
+  if (!parsedPriorities.success) {
+    return { result: null, error: "Please select between 1 and 5 priorities" };
+  }
+
+  try {
+    return {
+      result: evaluateSelectedPhones(phoneIds.map(resolvePhoneId), parsedPriorities.data, loadCatalog()),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      result: null,
+      error: error instanceof Error ? error.message : "An unexpected error occurred",
+    };
+  }
+}
+
 /**
  * Server Action: Load all phones from CSV
  */
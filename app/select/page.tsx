@@ -1,10 +1,71 @@
 "use client";
 
+import { useEffect, useMemo, useState, useTransition } from "react";
 import Link from "next/link";
+import { ComparisonDimension, Phone } from "@/core/referee-engine/types";
+import { compareSelectedPhones, getRefereeCatalog, SelectionState } from "@/app/actions";
+import { formatPhonePrice } from "@/lib/utils";
+import PrioritySelector from "@/components/priority-selector";
+import ComparisonMatrix from "@/components/comparison-matrix";
+import TradeOffDisplay from "@/components/tradeoff-display";
+import DominancePanel from "@/components/dominance-panel";
+import SensitivityPanel from "@/components/sensitivity-panel";
+
+const MIN_PHONES = 2;
+const MAX_PHONES = 5;
 
 export default function SelectPage() {
+  const [catalog, setCatalog] = useState<Phone[]>([]);
+  const [catalogLoading, setCatalogLoading] = useState(true);
+  const [query, setQuery] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [priorities, setPriorities] = useState<ComparisonDimension[]>(["battery_mah", "camera_mp"]);
+  const [state, setState] = useState<SelectionState>({ result: null, error: null });
+  const [pending, startTransition] = useTransition();
+
+  // Load catalog on mount
+  useEffect(() => {
+    async function loadCatalog() {
+      setCatalogLoading(true);
+      setCatalog(await getRefereeCatalog());
+      setCatalogLoading(false);
+    }
+    loadCatalog();
+  }, []);
+
+  const matches = useMemo(() => {
+    const lowerQuery = query.trim().toLowerCase();
+    if (!lowerQuery) return catalog;
+    return catalog.filter(phone =>
+      phone.name.toLowerCase().includes(lowerQuery) ||
+      (phone.brand?.toLowerCase().includes(lowerQuery) ?? false)
+    );
+  }, [catalog, query]);
+
+  const selectedPhones = selectedIds
+    .map(id => catalog.find(p => p.id === id))
+    .filter((p): p is Phone => p !== undefined);
+
+  const togglePhone = (id: string) => {
+    if (selectedIds.includes(id)) {
+      setSelectedIds(selectedIds.filter(s => s !== id));
+    } else if (selectedIds.length < MAX_PHONES) {
+      setSelectedIds([...selectedIds, id]);
+    }
+  };
+
+  const canCompare = selectedIds.length >= MIN_PHONES && priorities.length > 0 && !pending;
+
+  const handleCompare = () => {
+    startTransition(async () => {
+      setState(await compareSelectedPhones(selectedIds, priorities));
+    });
+  };
+
+  const { result } = state;
+
   return (
-    <div className="max-w-4xl mx-auto animate-fade-in">
+    <div className="max-w-7xl mx-auto animate-fade-in">
       <div className="mb-8">
         <Link
           href="/"
@@ -13,28 +74,124 @@ export default function SelectPage() {
           <span>←</span>
           <span>Back to Home</span>
         </Link>
-        <h1 className="text-4xl font-extrabold text-gray-900 flex items-center gap-3">
+        <h1 className="text-4xl font-extrabold text-white flex items-center gap-3">
           <span className="text-4xl">📊</span>
           <span>Phone Selection</span>
         </h1>
-        <p className="mt-3 text-lg text-gray-600">
-          Select specific phones to compare.
+        <p className="mt-3 text-lg text-gray-400">
+          Deciding between a few phones? Pick {MIN_PHONES}–{MAX_PHONES}, order your priorities, and let the referee lay out the trade-offs.
         </p>
       </div>
 
-      <div className="bg-gradient-to-br from-primary-50 to-accent-50 rounded-2xl p-12 text-center border border-primary-100">
-        <div className="text-6xl mb-4">🔜</div>
-        <h2 className="text-2xl font-bold text-gray-900 mb-2">Coming Soon</h2>
-        <p className="text-gray-600 mb-6">
-          Select specific phones from our database and compare them side-by-side.
-        </p>
-        <Link
-          href="/compare"
-          className="inline-flex items-center gap-2 bg-primary-600 text-white px-6 py-3 rounded-xl font-semibold hover:bg-primary-700 transition-colors"
-        >
-          <span>Try Comparison Instead</span>
-          <span>→</span>
-        </Link>
+      <div className="grid gap-8 lg:grid-cols-[380px_1fr]">
+        {/* Picker */}
+        <aside className="space-y-5">
+          <div className="form-section">
+            <label htmlFor="phone-search" className="flex items-center gap-2 text-sm font-semibold text-gray-700 mb-3">
+              <span className="text-lg">🔎</span>
+              <span>Choose Phones</span>
+              <span className="badge badge-primary">{selectedIds.length}/{MAX_PHONES}</span>
+            </label>
+
+            {selectedPhones.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-3">
+                {selectedPhones.map(phone => (
+                  <button
+                    key={phone.id}
+                    type="button"
+                    onClick={() => togglePhone(phone.id)}
+                    className="badge badge-primary gap-1 hover:bg-primary-200 transition-colors"
+                    aria-label={`Remove ${phone.name}`}
+                  >
+                    <span>{phone.name}</span>
+                    <span>✕</span>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <input
+              type="search"
+              id="phone-search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name or brand"
+              className="input-field mb-3"
+            />
+
+            <div className="max-h-80 overflow-y-auto space-y-1">
+              {catalogLoading && <p className="text-sm text-gray-500 p-2">Loading phones...</p>}
+              {!catalogLoading && matches.length === 0 && (
+                <p className="text-sm text-gray-500 p-2">No phones match “{query}”</p>
+              )}
+              {matches.map(phone => {
+                const selected = selectedIds.includes(phone.id);
+                return (
+                  <button
+                    key={phone.id}
+                    type="button"
+                    onClick={() => togglePhone(phone.id)}
+                    disabled={!selected && selectedIds.length >= MAX_PHONES}
+                    aria-pressed={selected}
+                    className={`w-full flex items-center justify-between gap-3 rounded-xl p-3 text-left transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                      selected ? "bg-primary-50 border border-primary-200" : "hover:bg-gray-50 border border-transparent"
+                    }`}
+                  >
+                    <span className="flex items-center gap-2">
+                      <span>{selected ? "☑️" : "⬜"}</span>
+                      <span className="font-medium text-gray-900">{phone.name}</span>
+                    </span>
+                    <span className="text-sm text-gray-500">{formatPhonePrice(phone)}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="form-section">
+            <PrioritySelector value={priorities} onChange={setPriorities} />
+          </div>
+
+          <button
+            type="button"
+            onClick={handleCompare}
+            disabled={!canCompare}
+            className="btn-primary w-full text-lg flex items-center justify-center gap-2"
+          >
+            <span>⚖️</span>
+            <span>{pending ? "Refereeing..." : "Referee These Phones"}</span>
+          </button>
+
+          {selectedIds.length < MIN_PHONES && (
+            <p className="text-center text-sm text-gray-400">
+              Select at least {MIN_PHONES} phones to compare
+            </p>
+          )}
+        </aside>
+
+        {/* Results */}
+        <section className="space-y-10">
+          {state.error && (
+            <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+              <p className="text-red-700">{state.error}</p>
+            </div>
+          )}
+
+          {!result && !state.error && (
+            <div className="card-dark text-center text-gray-400">
+              Pick the phones you are deciding between to see them side by side.
+            </div>
+          )}
+
+          {result && (
+            <>
+              <ComparisonMatrix result={result} />
+              <TradeOffDisplay result={result} />
+              <DominancePanel result={result} />
+              <SensitivityPanel sensitivityRules={result.sensitivity_rules} />
+            </>
+          )}
+        </section>
       </div>
     </div>
   );
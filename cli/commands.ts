@@ -0,0 +1,525 @@
+import { diffCatalogs, evaluatePhones, evaluateSelectedPhones } from "@/core/referee-engine";
+import {
+    ComparisonDimension,
+    ComparisonResult,
+    Phone,
+    UserConstraints,
+} from "@/core/referee-engine/types";
+import { formatPrice } from "@/lib/utils";
+import { ingestCatalog, loadCatalog as loadMergedCatalog } from "@/lib/catalog";
+import { IngestionReport } from "@/lib/ingestion";
+import {
+    CatalogSnapshot,
+    CatalogSnapshotSummary,
+    createCatalogSnapshot,
+    listCatalogSnapshots,
+    loadCatalogSnapshot,
+} from "@/lib/snapshots";
+import {
+    buildConstraints,
+    CliError,
+    ConstraintFlags,
+    dimensionAlias,
+    EXIT_CODES,
+    ExitCode,
+    findPhone,
+    OutputFormat,
+    parseBudget,
+    parseFeature,
+    parseKeyValue,
+    parsePriorities,
+    parseRegion,
+    resolveFeatureKey,
+} from "./options";
+import {
+    formatCompareResult,
+    formatConstraints,
+    formatNoQualifyingPhones,
+    formatCatalogDiff,
+    formatSelectResult,
+    formatSnapshotList,
+    formatValidateResult,
+} from "./format";
+
+export interface CommandOutput {
+    stdout: string;
+    stderr?: string;
+    exitCode: ExitCode;
+}
+
+/**
+ * Priorities used by `refree select` and the `refree analyze` baseline when none are given
+ */
+const DEFAULT_PRIORITIES: ComparisonDimension[] = [
+    "battery_mah",
+    "camera_mp",
+    "processor_benchmark",
+    "price",
+];
+
+/**
+ * Load the phone catalog, reporting failures as data errors
+ */
+function loadCatalog(): Phone[] {
+    let phones: Phone[];
+    try {
+        phones = loadMergedCatalog();
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new CliError(`Failed to load phone database: ${message}`, EXIT_CODES.DATA_ERROR);
+    }
+
+    if (phones.length === 0) {
+        throw new CliError("Phone database contains no valid phones", EXIT_CODES.DATA_ERROR);
+    }
+    return phones;
+}
+
+/**
+ * Load a catalog snapshot, reporting unknown snapshots as user errors
+ * and corrupt ones as data errors
+ */
+function findSnapshot(ref: string): CatalogSnapshot {
+    try {
+        return loadCatalogSnapshot(ref);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const known = message.startsWith("Unknown catalog snapshot");
+        throw new CliError(
+            known ? `${message}. See 'refree snapshot list'` : `Failed to load catalog snapshot: ${message}`,
+            known ? EXIT_CODES.USER_ERROR : EXIT_CODES.DATA_ERROR
+        );
+    }
+}
+
+/**
+ * Run the engine, reporting constraints it rejects as user errors
+ */
+function evaluate<T>(run: () => T): T {
+    try {
+        return run();
+    } catch (error) {
+        if (error instanceof Error && error.message.startsWith("Invalid constraints")) {
+            throw new CliError(error.message);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Store a catalog snapshot, reporting an invalid date as a user error
+ * and failures to write it as data errors
+ */
+function saveSnapshot(phones: Phone[], date?: string): CatalogSnapshot {
+    try {
+        return createCatalogSnapshot(phones, date);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const invalidDate = message.startsWith("Invalid snapshot date");
+        throw new CliError(
+            invalidDate ? message : `Failed to save catalog snapshot: ${message}`,
+            invalidDate ? EXIT_CODES.USER_ERROR : EXIT_CODES.DATA_ERROR
+        );
+    }
+}
+
+/**
+ * List the stored catalog snapshots, reporting corrupt ones as data errors
+ */
+function listSnapshots(): CatalogSnapshotSummary[] {
+    try {
+        return listCatalogSnapshots();
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new CliError(`Failed to list catalog snapshots: ${message}`, EXIT_CODES.DATA_ERROR);
+    }
+}
+
+function toJson(value: unknown): string {
+    return JSON.stringify(value, null, 2);
+}
+
+// ============================================
+// refree compare
+// ============================================
+
+export interface CompareFlags extends ConstraintFlags {
+    output: OutputFormat;
+    verbose: boolean;
+    /** Evaluate a catalog snapshot (date or content hash) instead of the current catalog */
+    "as-of"?: string;
+}
+
+/**
+ * Constraint-first comparison (User Story 1)
+ */
+export function runCompare(flags: CompareFlags): CommandOutput {
+    const constraints = buildConstraints(flags);
+    const snapshot = flags["as-of"] !== undefined ? findSnapshot(flags["as-of"]) : undefined;
+    const result = evaluate(() => evaluatePhones(snapshot ?? loadCatalog(), constraints));
+
+    const noneQualify = result.qualified_phones.length === 0;
+    const exitCode = noneQualify ? EXIT_CODES.USER_ERROR : EXIT_CODES.SUCCESS;
+
+    if (flags.output === "json") {
+        return { stdout: toJson(result), exitCode };
+    }
+
+    if (noneQualify) {
+        return { stdout: "", stderr: formatNoQualifyingPhones(result), exitCode };
+    }
+
+    return { stdout: formatCompareResult(result, flags.verbose), exitCode };
+}
+
+// ============================================
+// refree select
+// ============================================
+
+export interface SelectFlags {
+    phones: string[];
+    priority?: string[];
+    output: OutputFormat;
+    verbose: boolean;
+}
+
+/**
+ * User-selected comparison (User Story 2)
+ */
+export function runSelect(flags: SelectFlags): CommandOutput {
+    if (flags.phones.length < 2 || flags.phones.length > 5) {
+        throw new CliError(`Select between 2 and 5 phones (got ${flags.phones.length})`);
+    }
+
+    const priorities = flags.priority && flags.priority.length > 0
+        ? parsePriorities(flags.priority)
+        : DEFAULT_PRIORITIES;
+
+    const catalog = loadCatalog();
+    const ids = flags.phones.map(name => findPhone(name, catalog).id);
+    if (new Set(ids).size !== ids.length) {
+        throw new CliError("The same phone was selected more than once");
+    }
+
+    const result = evaluate(() => evaluateSelectedPhones(ids, priorities, catalog));
+
+    if (flags.output === "json") {
+        return { stdout: toJson(result), exitCode: EXIT_CODES.SUCCESS };
+    }
+    return { stdout: formatSelectResult(result, flags.verbose), exitCode: EXIT_CODES.SUCCESS };
+}
+
+// ============================================
+// refree analyze
+// ============================================
+
+export interface AnalyzeFlags extends CompareFlags {
+    adjust?: string[];
+}
+
+export interface RankChange {
+    phone_id: string;
+    from: number;
+    to: number;
+}
+
+export interface AdjustmentImpact {
+    adjustments: Record<string, unknown>;
+    newly_qualified: string[];
+    newly_eliminated: string[];
+    rank_changes: RankChange[];
+    conditional_statement: string;
+}
+
+/**
+ * Apply --adjust parameter=value flags to the baseline constraints.
+ * Returns the adjusted constraints and a readable description of each change.
+ * Changing the priorities drops custom weights that no longer match them.
+ */
+export function applyAdjustments(
+    base: UserConstraints,
+    adjustments: string[]
+): { constraints: UserConstraints; applied: Record<string, unknown>; descriptions: string[] } {
+    const constraints: UserConstraints = {
+        ...base,
+        required_features: { ...base.required_features },
+    };
+    const applied: Record<string, unknown> = {};
+    const descriptions: string[] = [];
+
+    for (const raw of adjustments) {
+        const [parameter, value] = parseKeyValue(raw, "--adjust");
+
+        if (parameter === "budget") {
+            const budget = value === "none" ? undefined : parseBudget(value);
+            constraints.budget = budget;
+            applied.budget = budget ?? null;
+            if (budget === undefined) {
+                descriptions.push("the budget limit is removed");
+            } else if (base.budget !== undefined && budget < base.budget) {
+                descriptions.push(`budget decreases to ${formatPrice(budget, base.currency)}`);
+            } else {
+                descriptions.push(`budget increases to ${formatPrice(budget, base.currency)}`);
+            }
+        } else if (parameter === "region") {
+            constraints.region = parseRegion(value);
+            applied.region = constraints.region;
+            descriptions.push(`region changes to ${constraints.region}`);
+        } else if (parameter === "priority" || parameter === "priorities") {
+            const priorities = parsePriorities(value.split(","));
+            if (priorities.length === 0) {
+                throw new CliError("--adjust priorities needs at least one dimension");
+            }
+            constraints.prioritized_dimensions = priorities;
+            applied.priorities = priorities;
+            descriptions.push(`priorities become ${priorities.map(dimensionAlias).join(" > ")}`);
+
+            // Custom weights only carry over when they still weigh exactly the new priorities
+            const weights = constraints.dimension_weights;
+            if (weights) {
+                const weighted = Object.keys(weights);
+                const matches = weighted.length === priorities.length && priorities.every(p => weights[p] !== undefined);
+                if (!matches) {
+                    constraints.dimension_weights = undefined;
+                    applied.weights = null;
+                    descriptions.push("the custom weights are dropped in favour of the default weighting");
+                }
+            }
+        } else if (value === "none") {
+            const key = resolveFeatureKey(parameter);
+            delete constraints.required_features![key];
+            applied[key] = null;
+            descriptions.push(`the ${key} requirement is removed`);
+        } else {
+            const [key, parsed] = parseFeature(parameter, value);
+            constraints.required_features![key] = parsed;
+            applied[key] = parsed;
+            descriptions.push(
+                key === "has_5g"
+                    ? parsed ? "5G becomes required" : "the 5G requirement is removed"
+                    : `${key} is set to ${parsed}`
+            );
+        }
+    }
+
+    if (Object.keys(constraints.required_features!).length === 0) {
+        constraints.required_features = undefined;
+    }
+
+    return { constraints, applied, descriptions };
+}
+
+/**
+ * Describe how the adjusted result differs from the baseline
+ */
+export function compareResults(
+    baseline: ComparisonResult,
+    adjusted: ComparisonResult,
+    applied: Record<string, unknown>,
+    descriptions: string[]
+): AdjustmentImpact {
+    const baseRanks = new Map(baseline.qualified_phones.map(p => [p.phone.id, p.overall_rank]));
+    const adjustedRanks = new Map(adjusted.qualified_phones.map(p => [p.phone.id, p.overall_rank]));
+
+    const newlyQualified = adjusted.qualified_phones.filter(p => !baseRanks.has(p.phone.id));
+    const newlyEliminated = baseline.qualified_phones.filter(p => !adjustedRanks.has(p.phone.id));
+    const rankChanges: RankChange[] = [];
+    for (const [id, to] of adjustedRanks) {
+        const from = baseRanks.get(id);
+        if (from !== undefined && from !== to) {
+            rankChanges.push({ phone_id: id, from, to });
+        }
+    }
+
+    const names = new Map(
+        [...baseline.qualified_phones, ...adjusted.qualified_phones].map(p => [p.phone.id, p.phone.name])
+    );
+    const outcomes: string[] = [];
+    if (newlyQualified.length > 0) {
+        const list = newlyQualified.map(p => p.phone.name).join(", ");
+        outcomes.push(`${list} become${newlyQualified.length === 1 ? "s" : ""} viable`);
+    }
+    if (newlyEliminated.length > 0) {
+        const list = newlyEliminated.map(p => p.phone.name).join(", ");
+        outcomes.push(`${list} no longer qualif${newlyEliminated.length === 1 ? "ies" : "y"}`);
+    }
+    for (const change of rankChanges.sort((a, b) => a.to - b.to).slice(0, 3)) {
+        const direction = change.to < change.from ? "moves up to" : "moves down to";
+        outcomes.push(`${names.get(change.phone_id)} ${direction} rank ${change.to}`);
+    }
+
+    const condition = descriptions.join(" and ");
+    const conditional = outcomes.length > 0
+        ? `IF ${condition}, THEN ${outcomes.join("; ")}`
+        : `IF ${condition}, THEN the qualifying phones and their ranking stay the same`;
+
+    return {
+        adjustments: applied,
+        newly_qualified: newlyQualified.map(p => p.phone.id),
+        newly_eliminated: newlyEliminated.map(p => p.phone.id),
+        rank_changes: rankChanges,
+        conditional_statement: conditional,
+    };
+}
+
+function formatAnalyze(
+    baseline: ComparisonResult,
+    adjusted: ComparisonResult,
+    impact: AdjustmentImpact,
+    verbose: boolean
+): string {
+    const names = new Map(
+        [...baseline.qualified_phones, ...adjusted.qualified_phones].map(p => [p.phone.id, p.phone.name])
+    );
+    const list = (ids: string[]) => (ids.length > 0 ? ids.map(id => names.get(id)).join(", ") : "none");
+
+    const sections: string[][] = [
+        ["=== Phone Purchase Referee: Sensitivity Analysis ==="],
+        formatConstraints(baseline.constraints_used),
+        ["Adjustments:", ...Object.entries(impact.adjustments).map(([k, v]) => `  ${k}: ${v === null ? "removed" : String(v)}`)],
+        [
+            "Impact:",
+            `  New qualifying phones: ${list(impact.newly_qualified)}`,
+            `  No longer qualifying: ${list(impact.newly_eliminated)}`,
+            `  Ranking changes: ${impact.rank_changes.length > 0
+                ? impact.rank_changes.map(c => `${names.get(c.phone_id)} ${c.from} → ${c.to}`).join(", ")
+                : "none"}`,
+        ],
+        ["Conditional Recommendation:", `  ${impact.conditional_statement}`],
+        [
+            `Qualifying Phones After Adjustment (${adjusted.qualified_phones.length}):`,
+            ...adjusted.qualified_phones.map(p => `${p.overall_rank}. ${p.conditional_statement}`),
+        ],
+    ];
+
+    if (adjusted.sensitivity_rules.length > 0) {
+        sections.push([
+            "Further Adjustments:",
+            ...adjusted.sensitivity_rules.map(r => `  ${r.conditional_statement}`),
+        ]);
+    }
+    if (verbose) {
+        sections.push([
+            "Audit Trail:",
+            `  Referee engine: v${adjusted.metadata.referee_engine_version}`,
+            `  Phone database: ${adjusted.metadata.phone_database_version}`,
+        ]);
+    }
+
+    return sections.map(s => s.join("\n")).join("\n\n");
+}
+
+/**
+ * Sensitivity analysis of explicit constraint adjustments (User Story 3).
+ * The baseline is described with the same flags as `refree compare`.
+ */
+export function runAnalyze(flags: AnalyzeFlags): CommandOutput {
+    const adjustments = flags.adjust ?? [];
+    if (adjustments.length === 0) {
+        throw new CliError("At least one --adjust parameter=value flag is required");
+    }
+
+    const base = buildConstraints(flags, DEFAULT_PRIORITIES);
+    const { constraints, applied, descriptions } = applyAdjustments(base, adjustments);
+
+    const catalog = loadCatalog();
+    const baseline = evaluate(() => evaluatePhones(catalog, base));
+    const adjusted = evaluate(() => evaluatePhones(catalog, constraints));
+    const impact = compareResults(baseline, adjusted, applied, descriptions);
+
+    if (flags.output === "json") {
+        return {
+            stdout: toJson({ baseline, adjusted, impact }),
+            exitCode: EXIT_CODES.SUCCESS,
+        };
+    }
+
+    return {
+        stdout: formatAnalyze(baseline, adjusted, impact, flags.verbose),
+        exitCode: EXIT_CODES.SUCCESS,
+    };
+}
+
+// ============================================
+// refree validate
+// ============================================
+
+export interface ValidateFlags {
+    strict: boolean;
+    output: OutputFormat;
+}
+
+/**
+ * Validate every catalog source and report rejected rows by row and field.
+ * With --strict any rejected row fails the command with a data error.
+ */
+export function runValidate(flags: ValidateFlags): CommandOutput {
+    let reports: IngestionReport[];
+    try {
+        ({ reports } = ingestCatalog());
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new CliError(`Failed to load phone database: ${message}`, EXIT_CODES.DATA_ERROR);
+    }
+
+    const rejected = reports.some(report => report.rejected_rows > 0);
+    const exitCode = flags.strict && rejected ? EXIT_CODES.DATA_ERROR : EXIT_CODES.SUCCESS;
+
+    if (flags.output === "json") {
+        return { stdout: toJson(reports), exitCode };
+    }
+    return { stdout: formatValidateResult(reports), exitCode };
+}
+
+// ============================================
+// refree snapshot
+// ============================================
+
+export interface SnapshotFlags {
+    action?: string;
+    refs: string[];
+    date?: string;
+    output: OutputFormat;
+}
+
+/**
+ * Manage dated catalog snapshots:
+ * `create` stores today's catalog, `list` shows stored snapshots and
+ * `diff <from> [to]` lists phones added, removed or repriced (to defaults to the current catalog)
+ */
+export function runSnapshot(flags: SnapshotFlags): CommandOutput {
+    switch (flags.action) {
+        case "create": {
+            const snapshot = saveSnapshot(loadCatalog(), flags.date);
+            const summary = { id: snapshot.id, date: snapshot.date, phone_count: snapshot.phones.length };
+            return {
+                stdout: flags.output === "json"
+                    ? toJson(summary)
+                    : `Saved catalog snapshot ${summary.date} (${summary.phone_count} phones)\n  ${summary.id}`,
+                exitCode: EXIT_CODES.SUCCESS,
+            };
+        }
+        case "list": {
+            const snapshots = listSnapshots();
+            return {
+                stdout: flags.output === "json" ? toJson(snapshots) : formatSnapshotList(snapshots),
+                exitCode: EXIT_CODES.SUCCESS,
+            };
+        }
+        case "diff": {
+            const [from, to] = flags.refs;
+            if (from === undefined || flags.refs.length > 2) {
+                throw new CliError("Usage: refree snapshot diff <from> [to]");
+            }
+            const before = findSnapshot(from);
+            const after = to !== undefined ? findSnapshot(to).phones : loadCatalog();
+            const diff = diffCatalogs(before.phones, after);
+            return {
+                stdout: flags.output === "json" ? toJson(diff) : formatCatalogDiff(diff, before, to ?? "current catalog"),
+                exitCode: EXIT_CODES.SUCCESS,
+            };
+        }
+        default:
+            throw new CliError("Usage: refree snapshot create|list|diff");
+    }
+}
@@ -0,0 +1,305 @@
+import {
+    ComparisonDimension,
+    ComparisonResult,
+    PhoneWithScore,
+    TradeOffPair,
+    UserConstraints,
+} from "@/core/referee-engine/types";
+import { getDimensionValue } from "@/core/referee-engine/scoring";
+import {
+    describeTieBreak,
+    formatDimensionValue,
+    formatPhonePrice,
+    formatPrice,
+    getDimensionDisplayName,
+} from "@/lib/utils";
+import { CatalogDiff, PriceChange } from "@/core/referee-engine/versioning";
+import { formatIngestionIssues, IngestionReport } from "@/lib/ingestion";
+import { CatalogSnapshot, CatalogSnapshotSummary } from "@/lib/snapshots";
+import { dimensionAlias } from "./options";
+
+/**
+ * Dimensions shown as rows of the select-mode comparison matrix
+ */
+const MATRIX_DIMENSIONS: ComparisonDimension[] = [
+    "price",
+    "battery_mah",
+    "camera_mp",
+    "screen_inches",
+    "storage_gb",
+    "weight_grams",
+    "processor_benchmark",
+    "ram_gb",
+    "refresh_rate_hz",
+    "fast_charging_w",
+];
+
+function heading(title: string): string {
+    return `=== Phone Purchase Referee: ${title} ===`;
+}
+
+/**
+ * Describe the constraints a comparison was run with
+ */
+export function formatConstraints(constraints: UserConstraints): string[] {
+    const lines = ["Constraints Applied:"];
+
+    lines.push(
+        `  Budget: ${constraints.budget !== undefined ? formatPrice(constraints.budget, constraints.currency) : "no limit"}`
+    );
+    lines.push(`  Priorities: ${constraints.prioritized_dimensions.map(dimensionAlias).join(" > ")}`);
+
+    const required = Object.entries(constraints.required_features ?? {})
+        .map(([key, value]) => (key === "has_5g" && value === true ? "5G support" : `${key}=${String(value)}`));
+    if (required.length > 0) {
+        lines.push(`  Required: ${required.join(", ")}`);
+    }
+
+    const ranges = Object.entries(constraints.dimension_bounds ?? {}).map(([dimension, bound]) => {
+        const format = (v: number | undefined) =>
+            v === undefined ? "" : formatDimensionValue(dimension, v, constraints.currency);
+        return `${dimensionAlias(dimension as ComparisonDimension)} ${format(bound.min)}..${format(bound.max)}`;
+    });
+    if (ranges.length > 0) {
+        lines.push(`  Ranges: ${ranges.join(", ")}`);
+    }
+
+    lines.push(`  Region: ${constraints.region}`);
+    return lines;
+}
+
+function formatScores(phone: PhoneWithScore): string {
+    return Object.entries(phone.dimension_scores)
+        .map(([dim, score]) => `${getDimensionDisplayName(dim)} ${(score * 100).toFixed(0)}%`)
+        .join(", ");
+}
+
+function formatQualified(result: ComparisonResult, verbose: boolean): string[] {
+    const { currency, region } = result.constraints_used;
+    const lines = [`Qualifying Phones (${result.qualified_phones.length}):`];
+
+    for (const phone of result.qualified_phones) {
+        const tie = phone.tie_break ? ` [${describeTieBreak(phone.tie_break)}]` : "";
+        lines.push(`${phone.overall_rank}. ${phone.phone.name} (${formatPhonePrice(phone.phone, currency, region)})${tie}`);
+        lines.push(`   → ${phone.conditional_statement}`);
+        if (verbose) {
+            const margin = phone.margin_below !== undefined ? `, ${phone.margin_below.toFixed(3)} ahead of next` : "";
+            lines.push(`   Overall: ${phone.weighted_score.toFixed(3)}${margin} (band ${phone.band})`);
+            lines.push(`   Scores: ${formatScores(phone)}`);
+        }
+    }
+
+    return lines;
+}
+
+/**
+ * Trade-offs per phone pair; only neighbouring ranks unless verbose
+ */
+function formatTradeOffs(result: ComparisonResult, verbose: boolean): string[] {
+    const pairs = verbose ? result.trade_off_matrix : result.trade_off_matrix.filter(p => p.rank_gap === 1);
+    if (pairs.length === 0) return [];
+
+    const names = new Map(result.qualified_phones.map(p => [p.phone.id, p.phone.name]));
+    const describe = (t: TradeOffPair) => `${t.explanation}${t.prioritized ? "" : " (not a priority)"}`;
+
+    const lines = ["Trade-Offs:"];
+    for (const pair of pairs) {
+        lines.push(
+            `  ${names.get(pair.phone_a_id) ?? pair.phone_a_id} vs ${names.get(pair.phone_b_id) ?? pair.phone_b_id}:`,
+            ...pair.gains.map(t => `    + ${describe(t)}`),
+            ...pair.sacrifices.map(t => `    - ${describe(t)}`)
+        );
+    }
+    return lines;
+}
+
+function formatDominated(result: ComparisonResult): string[] {
+    if (result.dominated_phones.length === 0) return [];
+    return ["Never Choose:", ...result.dominated_phones.map(d => `  ⛔ ${d.explanation}`)];
+}
+
+function formatEliminated(result: ComparisonResult, verbose: boolean): string[] {
+    if (result.eliminated_phones.length === 0) return [];
+
+    const { currency, region } = result.constraints_used;
+    const lines = [`Eliminated Phones (${result.eliminated_phones.length}):`];
+    for (const eliminated of result.eliminated_phones) {
+        const [first, ...rest] = eliminated.failures.map(
+            f => `${f.details}${verbose ? ` [${f.reason}]` : ""}`
+        );
+        lines.push(
+            `  ✗ ${eliminated.phone.name} (${formatPhonePrice(eliminated.phone, currency, region)}) - ${first}`,
+            ...rest.map(line => `      also: ${line}`)
+        );
+    }
+    return lines;
+}
+
+function formatSensitivity(result: ComparisonResult, title = "Sensitivity Analysis:"): string[] {
+    if (result.sensitivity_rules.length === 0) return [];
+    return [title, ...result.sensitivity_rules.map(r => `  ${r.conditional_statement}`)];
+}
+
+function formatMetadata(result: ComparisonResult): string[] {
+    const { metadata } = result;
+    return [
+        "Audit Trail:",
+        `  Timestamp: ${metadata.timestamp}`,
+        `  Referee engine: v${metadata.referee_engine_version}`,
+        `  Phone database: ${metadata.phone_database_version}`,
+        `  Constraints: ${metadata.constraints_hash}`,
+        `  Engine config: ${metadata.engine_config_hash}`,
+        `  Execution time: ${metadata.execution_time_ms}ms`,
+        `  Normalization: ${metadata.normalization}`,
+        `  Tie epsilon: ${metadata.tie_epsilon}`,
+        `  Weights (${metadata.weighting_scheme}): ${Object.entries(metadata.weights_used)
+            .map(([dim, weight]) => `${dimensionAlias(dim as ComparisonDimension)} ${(weight * 100).toFixed(0)}%`)
+            .join(", ")}`,
+    ];
+}
+
+/**
+ * Join output sections, separating non-empty ones by a blank line
+ */
+function joinSections(sections: string[][]): string {
+    return sections.filter(s => s.length > 0).map(s => s.join("\n")).join("\n\n");
+}
+
+/**
+ * Text output for `refree compare`
+ */
+export function formatCompareResult(result: ComparisonResult, verbose: boolean): string {
+    return joinSections([
+        [heading("Constraint-First Comparison")],
+        result.metadata.as_of
+            ? [`Catalog as of ${result.metadata.as_of} (${result.metadata.phone_database_version})`]
+            : [],
+        formatConstraints(result.constraints_used),
+        formatQualified(result, verbose),
+        formatTradeOffs(result, verbose),
+        formatDominated(result),
+        formatEliminated(result, verbose),
+        formatSensitivity(result),
+        verbose ? formatMetadata(result) : [],
+    ]);
+}
+
+/**
+ * Text output for `refree compare` when no phone qualifies
+ */
+export function formatNoQualifyingPhones(result: ComparisonResult): string {
+    return joinSections([
+        ["Error: No phones meet all specified constraints."],
+        formatSensitivity(result, "Suggestions to relax constraints:"),
+        [`Eliminated phones: ${result.eliminated_phones.length} (all rejected)`],
+    ]);
+}
+
+/**
+ * Render rows as a left-aligned table
+ */
+function formatTable(rows: string[][]): string[] {
+    const widths = rows[0]?.map((_, col) => Math.max(...rows.map(r => r[col]?.length ?? 0))) ?? [];
+    return rows.map(row =>
+        "  " + row.map((cell, col) => cell.padEnd(widths[col] ?? 0)).join(" | ").trimEnd()
+    );
+}
+
+/**
+ * Side-by-side spec matrix for the compared phones
+ */
+export function formatComparisonMatrix(result: ComparisonResult): string[] {
+    const { currency, region } = result.constraints_used;
+    const phones = result.qualified_phones.map(p => p.phone);
+
+    const rows: string[][] = [["Spec", ...phones.map(p => p.name)]];
+    for (const dimension of MATRIX_DIMENSIONS) {
+        const values = phones.map(phone => getDimensionValue(phone, dimension, currency, region));
+        if (values.every(v => v === undefined)) continue;
+
+        rows.push([
+            getDimensionDisplayName(dimension),
+            ...values.map(v => (v === undefined ? "—" : formatDimensionValue(dimension, v, currency))),
+        ]);
+    }
+    rows.push(["5G", ...phones.map(p => (p.specs.has_5g ? "yes" : "no"))]);
+
+    return ["Comparison Matrix:", ...formatTable(rows)];
+}
+
+/**
+ * Text output for `refree select`
+ */
+export function formatSelectResult(result: ComparisonResult, verbose: boolean): string {
+    const priorities = result.constraints_used.prioritized_dimensions.map(dimensionAlias).join(" > ");
+
+    return joinSections([
+        [heading("User-Selected Comparison")],
+        [`Priorities: ${priorities}`],
+        formatComparisonMatrix(result),
+        [
+            "Conditional Statements:",
+            ...result.qualified_phones.map(p => {
+                const scores = verbose ? ` (${formatScores(p)})` : "";
+                return `  #${p.overall_rank} ${p.conditional_statement}${scores}`;
+            }),
+        ],
+        formatTradeOffs(result, verbose),
+        formatDominated(result),
+        formatSensitivity(result),
+        verbose ? formatMetadata(result) : [],
+    ]);
+}
+
+/**
+ * Text output for `refree validate`
+ */
+export function formatValidateResult(reports: IngestionReport[]): string {
+    return joinSections([
+        [heading("Catalog Validation")],
+        ...reports.map(report => [
+            `${report.source}: ${report.accepted_rows} of ${report.total_rows} rows accepted` +
+                (report.rejected_rows > 0 ? `, ${report.rejected_rows} rejected` : ""),
+            ...(report.duplicate_ids.length > 0 ? [`  Duplicate ids: ${report.duplicate_ids.join(", ")}`] : []),
+            ...formatIngestionIssues(report).map(line => `  ✗ ${line}`),
+        ]),
+    ]);
+}
+
+/**
+ * Text output for `refree snapshot list`
+ */
+export function formatSnapshotList(snapshots: CatalogSnapshotSummary[]): string {
+    if (snapshots.length === 0) {
+        return "No catalog snapshots. Create one with 'refree snapshot create'.";
+    }
+    return joinSections([
+        [heading("Catalog Snapshots")],
+        formatTable([
+            ["Date", "Phones", "Id"],
+            ...snapshots.map(s => [s.date, String(s.phone_count), s.id]),
+        ]),
+    ]);
+}
+
+function formatPriceChange(change: PriceChange): string {
+    const format = (price: PriceChange["from"]) => (price ? formatPrice(price.amount, price.currency) : "unlisted");
+    return `  ~ ${change.phone_id} (${change.region}): ${format(change.from)} → ${format(change.to)}`;
+}
+
+/**
+ * Text output for `refree snapshot diff`
+ */
+export function formatCatalogDiff(diff: CatalogDiff, from: CatalogSnapshot, toLabel: string): string {
+    const unchanged = diff.added.length + diff.removed.length + diff.repriced.length === 0;
+    return joinSections([
+        [heading("Catalog Diff")],
+        [`From: ${from.date} (${diff.from})`, `To:   ${toLabel} (${diff.to})`],
+        unchanged ? ["No phones added, removed or repriced"] : [],
+        diff.added.length > 0 ? [`Added (${diff.added.length}):`, ...diff.added.map(id => `  + ${id}`)] : [],
+        diff.removed.length > 0 ? [`Removed (${diff.removed.length}):`, ...diff.removed.map(id => `  - ${id}`)] : [],
+        diff.repriced.length > 0
+            ? [`Repriced (${diff.repriced.length}):`, ...diff.repriced.map(formatPriceChange)]
+            : [],
+    ]);
+}
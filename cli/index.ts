@@ -0,0 +1,157 @@
+import { parseArgs } from "node:util";
+import { REFEREE_ENGINE_VERSION } from "@/core/referee-engine";
+import { CommandOutput, runAnalyze, runCompare, runSelect, runSnapshot, runValidate } from "./commands";
+import { CliError, EXIT_CODES, ExitCode, parseOutputFormat } from "./options";
+
+const USAGE = `Usage: refree <command> [options]
+
+Commands:
+  compare    Constraint-first comparison
+             --budget <amount> --priority <dimension>... [--require <feature=value>...]
+             [--range <dimension=min..max>...] [--region <code>] [--currency <code>]
+             [--weighting <scheme> | --weight <dimension=value>...] [--normalization <strategy>]
+             [--tie-epsilon <0-1>] [--as-of <snapshot date|id>]
+             [--output text|json] [--verbose]
+  select     Compare 2-5 specific phones
+             <phone names...> [--priority <dimension>...] [--output text|json] [--verbose]
+  analyze    Sensitivity analysis of constraint adjustments
+             --adjust <parameter=value>... plus the compare options describing the baseline
+  validate   Check every catalog source and report rejected rows
+             [--strict] [--output text|json]
+  snapshot   Dated catalog snapshots
+             create [--date <YYYY-MM-DD>] | list | diff <from> [to]   [--output text|json]
+
+Dimensions: battery, camera, screen, price, storage, weight, performance, ram, refresh, charging
+Features:   5g=true|false, min_storage=<GB>, min_screen=<inches>, min_ram=<GB>,
+            max_weight=<grams>, min_refresh=<Hz>, exclude_brands=<brand,brand>
+Ranges:     weight=..190, battery=5000.., screen=6.1..6.5
+Weighting:  exponential (default), linear, rank-sum, equal; or one --weight per priority
+Normalization: min-max (default), percentile, z-score, log, reference
+Adjust:     budget=<amount|none>, region=<code>, priorities=<dim,dim>, <feature>=<value|none>
+
+Exit codes: 0 success, 1 user input error, 2 data error, 3 internal error`;
+
+const CONSTRAINT_OPTIONS = {
+    budget: { type: "string" },
+    priority: { type: "string", multiple: true },
+    require: { type: "string", multiple: true },
+    range: { type: "string", multiple: true },
+    weighting: { type: "string" },
+    weight: { type: "string", multiple: true },
+    normalization: { type: "string" },
+    "tie-epsilon": { type: "string" },
+    region: { type: "string" },
+    currency: { type: "string" },
+    output: { type: "string" },
+    verbose: { type: "boolean", default: false },
+} as const;
+
+/**
+ * Parse argv for a command, turning parser failures into user errors
+ */
+function parse<T>(parser: () => T): T {
+    try {
+        return parser();
+    } catch (error) {
+        throw new CliError(error instanceof Error ? error.message : String(error));
+    }
+}
+
+/**
+ * Run the CLI for the given arguments (without node and script path)
+ */
+export function run(argv: string[]): CommandOutput {
+    const [command, ...args] = argv;
+
+    if (command === undefined || command === "--help" || command === "-h" || command === "help") {
+        return { stdout: USAGE, exitCode: EXIT_CODES.SUCCESS };
+    }
+    if (command === "--version" || command === "-v") {
+        return { stdout: REFEREE_ENGINE_VERSION, exitCode: EXIT_CODES.SUCCESS };
+    }
+
+    switch (command) {
+        case "compare": {
+            const { values } = parse(() =>
+                parseArgs({
+                    args,
+                    options: { ...CONSTRAINT_OPTIONS, "as-of": { type: "string" } },
+                    strict: true,
+                })
+            );
+            return runCompare({ ...values, output: parseOutputFormat(values.output) });
+        }
+        case "select": {
+            const { values, positionals } = parse(() =>
+                parseArgs({
+                    args,
+                    options: {
+                        priority: CONSTRAINT_OPTIONS.priority,
+                        output: CONSTRAINT_OPTIONS.output,
+                        verbose: CONSTRAINT_OPTIONS.verbose,
+                    },
+                    allowPositionals: true,
+                    strict: true,
+                })
+            );
+            return runSelect({
+                phones: positionals,
+                priority: values.priority,
+                output: parseOutputFormat(values.output),
+                verbose: values.verbose,
+            });
+        }
+        case "analyze": {
+            const { values } = parse(() =>
+                parseArgs({
+                    args,
+                    options: { ...CONSTRAINT_OPTIONS, adjust: { type: "string", multiple: true } },
+                    strict: true,
+                })
+            );
+            return runAnalyze({ ...values, output: parseOutputFormat(values.output) });
+        }
+        case "validate": {
+            const { values } = parse(() =>
+                parseArgs({
+                    args,
+                    options: { strict: { type: "boolean", default: false }, output: CONSTRAINT_OPTIONS.output },
+                    strict: true,
+                })
+            );
+            return runValidate({ strict: values.strict, output: parseOutputFormat(values.output) });
+        }
+        case "snapshot": {
+            const { values, positionals } = parse(() =>
+                parseArgs({
+                    args,
+                    options: { date: { type: "string" }, output: CONSTRAINT_OPTIONS.output },
+                    allowPositionals: true,
+                    strict: true,
+                })
+            );
+            const [action, ...refs] = positionals;
+            return runSnapshot({ action, refs, date: values.date, output: parseOutputFormat(values.output) });
+        }
+        default:
+            throw new CliError(`Unknown command '${command}'\n\n${USAGE}`);
+    }
+}
+
+function main(): ExitCode {
+    try {
+        const output = run(process.argv.slice(2));
+        if (output.stdout) process.stdout.write(output.stdout + "\n");
+        if (output.stderr) process.stderr.write(output.stderr + "\n");
+        return output.exitCode;
+    } catch (error) {
+        if (error instanceof CliError) {
+            process.stderr.write(`Error: ${error.message}\n`);
+            return error.exitCode;
+        }
+        process.stderr.write(`Internal error: ${error instanceof Error ? error.stack ?? error.message : String(error)}\n`);
+        return EXIT_CODES.INTERNAL_ERROR;
+    }
+}
+
+process.exitCode = main();
@@ -0,0 +1,457 @@
+import {
+    ComparisonDimension,
+    Currency,
+    CurrencySchema,
+    DimensionBound,
+    Phone,
+    NormalizationStrategy,
+    NormalizationStrategySchema,
+    RequestedRegionSchema,
+    UserConstraints,
+    UserConstraintsSchema,
+    WeightingScheme,
+    WeightingSchemeSchema,
+} from "@/core/referee-engine/types";
+import { getRegionCurrency } from "@/core/referee-engine/currency";
+import { resolvePhoneId } from "@/lib/csv-loader";
+
+// ============================================
+// Exit Codes (specs/.../contracts/cli-commands.md)
+// ============================================
+
+export const EXIT_CODES = {
+    SUCCESS: 0,
+    USER_ERROR: 1,
+    DATA_ERROR: 2,
+    INTERNAL_ERROR: 3,
+} as const;
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
+
+/**
+ * Error carrying the process exit code it should produce
+ */
+export class CliError extends Error {
+    constructor(message: string, readonly exitCode: ExitCode = EXIT_CODES.USER_ERROR) {
+        super(message);
+        this.name = "CliError";
+    }
+}
+
+// ============================================
+// Dimensions
+// ============================================
+
+/**
+ * CLI dimension names mapped to engine dimensions
+ */
+export const DIMENSION_ALIASES: Record<string, ComparisonDimension> = {
+    battery: "battery_mah",
+    camera: "camera_mp",
+    screen: "screen_inches",
+    price: "price",
+    storage: "storage_gb",
+    weight: "weight_grams",
+    performance: "processor_benchmark",
+    ram: "ram_gb",
+    refresh: "refresh_rate_hz",
+    charging: "fast_charging_w",
+};
+
+/**
+ * Convert a CLI dimension name to an engine dimension
+ */
+export function parseDimension(name: string): ComparisonDimension {
+    const dimension = DIMENSION_ALIASES[name.trim().toLowerCase()];
+    if (!dimension) {
+        throw new CliError(
+            `Invalid priority dimension '${name}'. Valid dimensions: ${Object.keys(DIMENSION_ALIASES).join(", ")}`
+        );
+    }
+    return dimension;
+}
+
+/**
+ * Convert an engine dimension back to its CLI name
+ */
+export function dimensionAlias(dimension: ComparisonDimension): string {
+    return Object.entries(DIMENSION_ALIASES).find(([, d]) => d === dimension)?.[0] ?? dimension;
+}
+
+/**
+ * Parse an ordered list of --priority values
+ */
+export function parsePriorities(values: string[]): ComparisonDimension[] {
+    const priorities = values.map(parseDimension);
+
+    if (new Set(priorities).size !== priorities.length) {
+        throw new CliError("Each --priority dimension may only be given once");
+    }
+    if (priorities.length > 5) {
+        throw new CliError("At most 5 --priority flags are allowed");
+    }
+
+    return priorities;
+}
+
+// ============================================
+// Required Features
+// ============================================
+
+type FeatureType = "boolean" | "number" | "list";
+
+/**
+ * CLI feature names mapped to engine required_features keys
+ */
+const FEATURE_ALIASES: Record<string, { key: string; type: FeatureType }> = {
+    "5g": { key: "has_5g", type: "boolean" },
+    has_5g: { key: "has_5g", type: "boolean" },
+    min_storage: { key: "min_storage_gb", type: "number" },
+    min_storage_gb: { key: "min_storage_gb", type: "number" },
+    min_screen: { key: "min_screen_inches", type: "number" },
+    min_screen_inches: { key: "min_screen_inches", type: "number" },
+    min_ram: { key: "min_ram_gb", type: "number" },
+    min_ram_gb: { key: "min_ram_gb", type: "number" },
+    max_weight: { key: "max_weight_grams", type: "number" },
+    max_weight_grams: { key: "max_weight_grams", type: "number" },
+    min_refresh: { key: "min_refresh_rate_hz", type: "number" },
+    min_refresh_rate_hz: { key: "min_refresh_rate_hz", type: "number" },
+    exclude_brands: { key: "excluded_brands", type: "list" },
+    excluded_brands: { key: "excluded_brands", type: "list" },
+};
+
+/**
+ * Split a "key=value" flag value
+ */
+export function parseKeyValue(raw: string, flag: string): [string, string] {
+    const index = raw.indexOf("=");
+    if (index <= 0 || index === raw.length - 1) {
+        throw new CliError(`Invalid ${flag} '${raw}'. Expected key=value`);
+    }
+    return [raw.slice(0, index).trim().toLowerCase(), raw.slice(index + 1).trim()];
+}
+
+function lookupFeature(name: string): { key: string; type: FeatureType } {
+    const feature = FEATURE_ALIASES[name];
+    if (!feature) {
+        throw new CliError(
+            `Unknown required feature '${name}'. Valid features: ${Object.keys(FEATURE_ALIASES).join(", ")}`
+        );
+    }
+    return feature;
+}
+
+/**
+ * Resolve a CLI feature name to its engine required_features key
+ */
+export function resolveFeatureKey(name: string): string {
+    return lookupFeature(name).key;
+}
+
+/**
+ * Parse a single required feature into its engine key and typed value
+ */
+export function parseFeature(name: string, value: string): [string, boolean | number | string[]] {
+    const feature = lookupFeature(name);
+
+    if (feature.type === "list") {
+        const items = value.split(",").map(item => item.trim()).filter(Boolean);
+        if (items.length === 0) {
+            throw new CliError(`Feature '${name}' expects a comma-separated list, got '${value}'`);
+        }
+        return [feature.key, items];
+    }
+
+    if (feature.type === "boolean") {
+        if (value !== "true" && value !== "false") {
+            throw new CliError(`Feature '${name}' expects true or false, got '${value}'`);
+        }
+        return [feature.key, value === "true"];
+    }
+
+    const number = Number(value);
+    if (!Number.isFinite(number) || number <= 0) {
+        throw new CliError(`Feature '${name}' expects a positive number, got '${value}'`);
+    }
+    return [feature.key, number];
+}
+
+/**
+ * Parse repeatable --require feature=value flags
+ */
+export function parseRequirements(values: string[]): Record<string, unknown> | undefined {
+    if (values.length === 0) return undefined;
+
+    const features: Record<string, unknown> = {};
+    for (const raw of values) {
+        const [name, value] = parseKeyValue(raw, "--require");
+        const [key, parsed] = parseFeature(name, value);
+        features[key] = parsed;
+    }
+    return features;
+}
+
+// ============================================
+// Constraints
+// ============================================
+
+/**
+ * Parse a --budget value
+ */
+export function parseBudget(value: string | undefined): number | undefined {
+    if (value === undefined) return undefined;
+
+    const budget = Number(value);
+    if (!Number.isFinite(budget) || budget <= 0) {
+        throw new CliError(`Invalid --budget '${value}'. Expected a positive number`);
+    }
+    return budget;
+}
+
+/**
+ * Parse a --region value (ISO 3166-1 alpha-2)
+ */
+export function parseRegion(value: string | undefined): string {
+    if (value === undefined) return "US";
+
+    if (!/^[a-z]{2}$/i.test(value)) {
+        throw new CliError(`Invalid --region '${value}'. Expected a 2-letter country code`);
+    }
+    return RequestedRegionSchema.parse(value);
+}
+
+/**
+ * Parse a --currency code, defaulting to the region's currency
+ */
+export function parseCurrency(value: string | undefined, region: string): Currency {
+    if (value === undefined) return getRegionCurrency(region);
+
+    const parsed = CurrencySchema.safeParse(value.trim().toUpperCase());
+    if (!parsed.success) {
+        throw new CliError(`Invalid --currency '${value}'. Valid currencies: ${CurrencySchema.options.join(", ")}`);
+    }
+    return parsed.data;
+}
+
+/**
+ * Parse repeatable --range dimension=min..max flags (either end may be omitted)
+ */
+export function parseRanges(values: string[]): Partial<Record<ComparisonDimension, DimensionBound>> | undefined {
+    if (values.length === 0) return undefined;
+
+    const bounds: Partial<Record<ComparisonDimension, DimensionBound>> = {};
+    for (const raw of values) {
+        const [name, value] = parseKeyValue(raw, "--range");
+        const dimension = parseDimension(name);
+        const match = /^([\d.]*)\.\.([\d.]*)$/.exec(value);
+        const min = match?.[1] ? Number(match[1]) : undefined;
+        const max = match?.[2] ? Number(match[2]) : undefined;
+
+        if (
+            !match ||
+            (min === undefined && max === undefined) ||
+            (min !== undefined && !Number.isFinite(min)) ||
+            (max !== undefined && !Number.isFinite(max))
+        ) {
+            throw new CliError(`Invalid --range '${raw}'. Expected dimension=min..max, e.g. weight=..190 or screen=6.1..6.5`);
+        }
+        if (min !== undefined && max !== undefined && min > max) {
+            throw new CliError(`Invalid --range '${raw}'. The minimum is greater than the maximum`);
+        }
+        bounds[dimension] = { min, max };
+    }
+    return bounds;
+}
+
+/**
+ * Parse a --weighting scheme name (rank-sum and rank_sum are both accepted)
+ */
+export function parseWeightingScheme(value: string | undefined): WeightingScheme | undefined {
+    if (value === undefined) return undefined;
+
+    const parsed = WeightingSchemeSchema.safeParse(value.trim().toLowerCase().replace("-", "_"));
+    if (!parsed.success) {
+        throw new CliError(
+            `Invalid --weighting '${value}'. Valid schemes: ${WeightingSchemeSchema.options.join(", ")}`
+        );
+    }
+    return parsed.data;
+}
+
+/**
+ * Parse a --normalization strategy name (min-max and min_max are both accepted)
+ */
+export function parseNormalization(value: string | undefined): NormalizationStrategy | undefined {
+    if (value === undefined) return undefined;
+
+    const parsed = NormalizationStrategySchema.safeParse(value.trim().toLowerCase().replace("-", "_"));
+    if (!parsed.success) {
+        throw new CliError(
+            `Invalid --normalization '${value}'. Valid strategies: ${NormalizationStrategySchema.options.join(", ")}`
+        );
+    }
+    return parsed.data;
+}
+
+/**
+ * Parse repeatable --weight dimension=value flags
+ */
+export function parseWeights(values: string[]): Partial<Record<ComparisonDimension, number>> | undefined {
+    if (values.length === 0) return undefined;
+
+    const weights: Partial<Record<ComparisonDimension, number>> = {};
+    for (const raw of values) {
+        const [name, value] = parseKeyValue(raw, "--weight");
+        const weight = Number(value);
+        if (!Number.isFinite(weight) || weight < 0) {
+            throw new CliError(`Invalid --weight '${raw}'. Expected a non-negative number`);
+        }
+        weights[parseDimension(name)] = weight;
+    }
+    return weights;
+}
+
+/**
+ * Parse a --tie-epsilon value (weighted-score difference treated as a tie)
+ */
+export function parseTieEpsilon(value: string | undefined): number | undefined {
+    if (value === undefined) return undefined;
+
+    const epsilon = Number(value);
+    if (!Number.isFinite(epsilon) || epsilon < 0 || epsilon > 1) {
+        throw new CliError(`Invalid --tie-epsilon '${value}'. Expected a number between 0 and 1`);
+    }
+    return epsilon;
+}
+
+export interface ConstraintFlags {
+    budget?: string;
+    priority?: string[];
+    require?: string[];
+    range?: string[];
+    region?: string;
+    currency?: string;
+    weighting?: string;
+    weight?: string[];
+    normalization?: string;
+    "tie-epsilon"?: string;
+}
+
+/**
+ * Build validated engine constraints from compare-style flags,
+ * falling back to `defaultPriorities` when no --priority is given
+ */
+export function buildConstraints(
+    flags: ConstraintFlags,
+    defaultPriorities: ComparisonDimension[] = []
+): UserConstraints {
+    const given = parsePriorities(flags.priority ?? []);
+    const priorities = given.length > 0 ? given : defaultPriorities;
+    if (priorities.length === 0) {
+        throw new CliError("At least one --priority flag is required");
+    }
+
+    const weights = parseWeights(flags.weight ?? []);
+    if (weights) {
+        if (flags.weighting !== undefined) {
+            throw new CliError("--weight and --weighting cannot be combined");
+        }
+        const missing = priorities.filter(p => weights[p] === undefined);
+        const extra = Object.keys(weights).filter(d => !priorities.includes(d as ComparisonDimension));
+        if (missing.length > 0 || extra.length > 0) {
+            throw new CliError("Give exactly one --weight for each --priority dimension");
+        }
+        if (Object.values(weights).every(w => w === 0)) {
+            throw new CliError("At least one --weight must be greater than zero");
+        }
+    }
+
+    const region = parseRegion(flags.region);
+    const parsed = UserConstraintsSchema.safeParse({
+        budget: parseBudget(flags.budget),
+        required_features: parseRequirements(flags.require ?? []),
+        dimension_bounds: parseRanges(flags.range ?? []),
+        normalization: parseNormalization(flags.normalization),
+        weighting_scheme: parseWeightingScheme(flags.weighting),
+        dimension_weights: weights,
+        tie_epsilon: parseTieEpsilon(flags["tie-epsilon"]),
+        prioritized_dimensions: priorities,
+        region,
+        currency: parseCurrency(flags.currency, region),
+    });
+
+    if (!parsed.success) {
+        throw new CliError(parsed.error.errors.map(e => e.message).join(", "));
+    }
+    return parsed.data;
+}
+
+// ============================================
+// Output
+// ============================================
+
+export type OutputFormat = "text" | "json";
+
+/**
+ * Parse an --output value
+ */
+export function parseOutputFormat(value: string | undefined): OutputFormat {
+    if (value === undefined) return "text";
+    if (value !== "text" && value !== "json") {
+        throw new CliError(`Invalid --output '${value}'. Expected text or json`);
+    }
+    return value;
+}
+
+// ============================================
+// Phone Lookup
+// ============================================
+
+function tokenize(text: string): string[] {
+    return text.toLowerCase().replace(/[()]/g, "").split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Resolve a user-supplied phone name to a catalog phone.
+ * Matches by id, exact name, then the closest name containing every query token.
+ */
+export function findPhone(query: string, phones: Phone[]): Phone {
+    const normalized = query.trim().toLowerCase();
+
+    const exact = phones.find(
+        p => p.id === resolvePhoneId(normalized) || p.name.toLowerCase() === normalized
+    );
+    if (exact) return exact;
+
+    const queryTokens = tokenize(query);
+    const candidates = phones
+        .map(phone => ({ phone, tokens: tokenize(phone.name) }))
+        .filter(({ tokens }) => queryTokens.every(t => tokens.includes(t)))
+        .sort((a, b) => a.tokens.length - b.tokens.length);
+
+    const [best, next] = candidates;
+    if (best && (!next || next.tokens.length > best.tokens.length)) {
+        return best.phone;
+    }
+
+    const suggestions = candidates.length > 0
+        ? candidates.map(c => c.phone)
+        : phones
+            .map(phone => ({
+                phone,
+                overlap: tokenize(phone.name).filter(t => queryTokens.includes(t)).length,
+            }))
+            .filter(s => s.overlap > 0)
+            .sort((a, b) => b.overlap - a.overlap)
+            .map(s => s.phone);
+
+    const hint = suggestions.length > 0
+        ? `. Did you mean: ${suggestions.slice(0, 3).map(p => `"${p.name}"`).join(", ")}?`
+        : "";
+
+    throw new CliError(
+        candidates.length > 1
+            ? `Phone "${query}" is ambiguous${hint}`
+            : `Phone "${query}" not found${hint}`
+    );
+}
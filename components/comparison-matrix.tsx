@@ -0,0 +1,117 @@
+import { ComparisonDimension, ComparisonResult } from "@/core/referee-engine/types";
+import { getDimensionValue, LOWER_IS_BETTER } from "@/core/referee-engine/scoring";
+import { formatDimensionValue, formatPhonePrice, getDimensionDisplayName } from "@/lib/utils";
+
+interface ComparisonMatrixProps {
+    result: ComparisonResult;
+}
+
+const MATRIX_DIMENSIONS: ComparisonDimension[] = [
+    "price",
+    "battery_mah",
+    "camera_mp",
+    "screen_inches",
+    "storage_gb",
+    "weight_grams",
+    "processor_benchmark",
+    "ram_gb",
+    "refresh_rate_hz",
+    "fast_charging_w",
+];
+
+export default function ComparisonMatrix({ result }: ComparisonMatrixProps) {
+    const { currency, region, prioritized_dimensions } = result.constraints_used;
+    const ranked = result.qualified_phones;
+
+    if (ranked.length === 0) {
+        return null;
+    }
+
+    const rows = MATRIX_DIMENSIONS
+        .map(dimension => {
+            const values = ranked.map(p => getDimensionValue(p.phone, dimension, currency, region));
+            const known = values.filter((v): v is number => v !== undefined);
+            const best = LOWER_IS_BETTER.includes(dimension) ? Math.min(...known) : Math.max(...known);
+            return { dimension, values, best, hasData: known.length > 0 };
+        })
+        .filter(row => row.hasData);
+
+    return (
+        <div className="animate-slide-up">
+            <h2 className="section-title flex items-center gap-2 mb-4">
+                <span className="text-primary-500">📊</span>
+                <span>Side-by-Side Comparison</span>
+            </h2>
+
+            <div className="panel overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="border-b border-gray-100">
+                            <th className="py-3 pr-4 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">
+                                Spec
+                            </th>
+                            {ranked.map(p => (
+                                <th key={p.phone.id} className="py-3 px-4 text-left align-bottom">
+                                    <span className="badge badge-primary mb-1">#{p.overall_rank}</span>
+                                    <p className="font-bold text-gray-900">{p.phone.name}</p>
+                                    <p className="text-xs font-medium text-gray-500">
+                                        {formatPhonePrice(p.phone, currency, region)}
+                                    </p>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(({ dimension, values, best }) => {
+                            const priority = prioritized_dimensions.indexOf(dimension);
+                            return (
+                                <tr key={dimension} className="border-b border-gray-50">
+                                    <td className="py-3 pr-4 font-medium text-gray-700 whitespace-nowrap">
+                                        {getDimensionDisplayName(dimension)}
+                                        {priority !== -1 && (
+                                            <span className="badge badge-accent ml-2">P{priority + 1}</span>
+                                        )}
+                                    </td>
+                                    {values.map((value, index) => {
+                                        const phone = ranked[index]!;
+                                        const score = phone.dimension_scores[dimension];
+                                        const isBest = value !== undefined && value === best && ranked.length > 1;
+                                        return (
+                                            <td
+                                                key={phone.phone.id}
+                                                className={`py-3 px-4 ${isBest ? "font-bold text-success-700" : "text-gray-900"}`}
+                                            >
+                                                {value === undefined ? "—" : formatDimensionValue(dimension, value, currency)}
+                                                {score !== undefined && (
+                                                    <span className="ml-2 text-xs font-normal text-gray-400">
+                                                        {(score * 100).toFixed(0)}%
+                                                    </span>
+                                                )}
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            );
+                        })}
+                        <tr className="border-b border-gray-50">
+                            <td className="py-3 pr-4 font-medium text-gray-700">5G</td>
+                            {ranked.map(p => (
+                                <td key={p.phone.id} className="py-3 px-4 text-gray-900">
+                                    {p.phone.specs.has_5g ? "✅ Yes" : "❌ No"}
+                                </td>
+                            ))}
+                        </tr>
+                        <tr>
+                            <td className="py-3 pr-4 font-medium text-gray-700 align-top">Verdict</td>
+                            {ranked.map(p => (
+                                <td key={p.phone.id} className="py-3 px-4 align-top text-xs italic text-gray-600">
+                                    💡 {p.conditional_statement}
+                                </td>
+                            ))}
+                        </tr>
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
@@ -2,22 +2,35 @@
 
 import { useState } from "react";
 import { useFormStatus } from "react-dom";
-import { ComparisonDimension } from "@/core/referee-engine/types";
+import { ComparisonDimension, Currency, CurrencySchema, NormalizationStrategy } from "@/core/referee-engine/types";
+import PrioritySelector, { DIMENSIONS } from "@/components/priority-selector";
+import WeightSelector, { WeightingChoice } from "@/components/weight-selector";
+import { getCurrencySymbol, getDimensionUnit } from "@/lib/utils";
+
+/**
+ * Markets with a phone catalog, with budget defaults in the local currency
+ */
+const MARKETS: { region: string; label: string; currency: Currency; budget: number; step: number }[] = [
+    { region: "US", label: "🇺🇸 United States", currency: "USD", budget: 800, step: 50 },
+    { region: "IN", label: "🇮🇳 India", currency: "INR", budget: 40000, step: 1000 },
+    { region: "GB", label: "🇬🇧 United Kingdom", currency: "GBP", budget: 700, step: 50 },
+];
+
+const NORMALIZATION_OPTIONS: { value: NormalizationStrategy; label: string }[] = [
+    { value: "min_max", label: "Min–max (relative to the shortlist)" },
+    { value: "percentile", label: "Percentile rank" },
+    { value: "z_score", label: "Z-score (outliers clamped)" },
+    { value: "log", label: "Log scale for camera & storage" },
+    { value: "reference", label: "Fixed reference ranges" },
+];
+
+// Price is bounded by the budget field
+const RANGE_DIMENSIONS = DIMENSIONS.filter(d => d.value !== "price");
 
 interface ConstraintFormProps {
     onSubmit: (formData: FormData) => void;
 }
 
-const DIMENSIONS: { value: ComparisonDimension; label: string; icon: string }[] = [
-    { value: "battery_mah", label: "Battery Life", icon: "🔋" },
-    { value: "camera_mp", label: "Camera Quality", icon: "📷" },
-    { value: "price_usd", label: "Value for Money", icon: "💰" },
-    { value: "screen_inches", label: "Screen Size", icon: "📱" },
-    { value: "storage_gb", label: "Storage", icon: "💾" },
-    { value: "processor_benchmark", label: "Performance", icon: "⚡" },
-    { value: "weight_grams", label: "Lightweight", icon: "🪶" },
-];
-
 function SubmitButton() {
     const { pending } = useFormStatus();
 
@@ -50,31 +63,57 @@ export default function ConstraintForm({ onSubmit }: ConstraintFormProps) {
         "battery_mah",
         "camera_mp",
     ]);
+    const [weightingScheme, setWeightingScheme] = useState<WeightingChoice>("exponential");
+    const [customWeights, setCustomWeights] = useState<Partial<Record<ComparisonDimension, number>>>({});
+    const [marketIndex, setMarketIndex] = useState(0);
+    const market = MARKETS[marketIndex] ?? MARKETS[0]!;
+    const [currency, setCurrency] = useState<Currency>(market.currency);
     const [require5G, setRequire5G] = useState(false);
     const [useAI, setUseAI] = useState(true);
 
-    const handlePriorityChange = (dimension: ComparisonDimension, checked: boolean) => {
-        if (checked && selectedPriorities.length < 5) {
-            setSelectedPriorities([...selectedPriorities, dimension]);
-        } else if (!checked) {
-            setSelectedPriorities(selectedPriorities.filter(p => p !== dimension));
-        }
-    };
-
-    const movePriority = (dimension: ComparisonDimension, direction: "up" | "down") => {
-        const index = selectedPriorities.indexOf(dimension);
-        if (index === -1) return;
-
-        const newIndex = direction === "up" ? index - 1 : index + 1;
-        if (newIndex < 0 || newIndex >= selectedPriorities.length) return;
-
-        const newPriorities = [...selectedPriorities];
-        [newPriorities[index], newPriorities[newIndex]] = [newPriorities[newIndex]!, newPriorities[index]!];
-        setSelectedPriorities(newPriorities);
-    };
-
     return (
         <form action={onSubmit} className="space-y-5">
+            {/* Market */}
+            <div className="form-section">
+                <label htmlFor="market" className="flex items-center gap-2 text-sm font-semibold text-gray-700 mb-3">
+                    <span className="text-lg">🌍</span>
+                    <span>Market</span>
+                </label>
+                <div className="grid grid-cols-[1fr_7rem] gap-2">
+                    <select
+                        id="market"
+                        value={marketIndex}
+                        onChange={(e) => {
+                            const index = Number(e.target.value);
+                            setMarketIndex(index);
+                            setCurrency(MARKETS[index]?.currency ?? "USD");
+                        }}
+                        className="input-field"
+                    >
+                        {MARKETS.map((m, index) => (
+                            <option key={m.region} value={index}>{m.label}</option>
+                        ))}
+                    </select>
+                    <select
+                        name="currency"
+                        value={currency}
+                        onChange={(e) => setCurrency(e.target.value as Currency)}
+                        aria-label="Currency"
+                        className="input-field"
+                    >
+                        {CurrencySchema.options.map(c => (
+                            <option key={c} value={c}>{c}</option>
+                        ))}
+                    </select>
+                </div>
+                <input type="hidden" name="region" value={market.region} />
+                {currency !== market.currency && (
+                    <p className="mt-2 text-xs text-gray-500">
+                        Prices not listed in {currency} are converted with offline exchange rates
+                    </p>
+                )}
+            </div>
+
             {/* Budget Input */}
             <div className="form-section">
                 <label htmlFor="budget" className="flex items-center gap-2 text-sm font-semibold text-gray-700 mb-3">
@@ -82,97 +121,27 @@ export default function ConstraintForm({ onSubmit }: ConstraintFormProps) {
                     <span>Maximum Budget</span>
                 </label>
                 <div className="relative">
-                    <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400 font-semibold text-lg">$</span>
+                    <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400 font-semibold text-lg">
+                        {getCurrencySymbol(currency)}
+                    </span>
                     <input
+                        key={currency}
                         type="number"
                         id="budget"
                         name="budget"
-                        min="100"
-                        max="2000"
-                        step="50"
-                        defaultValue="800"
+                        min="0"
+                        step={currency === market.currency ? market.step : "any"}
+                        defaultValue={currency === market.currency ? market.budget : undefined}
                         className="input-field pl-10 pr-16 text-xl font-semibold"
                     />
-                    <span className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-400 text-sm font-medium">USD</span>
+                    <span className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-400 text-sm font-medium">{currency}</span>
                 </div>
                 <p className="mt-2 text-xs text-gray-500">Leave empty for no budget limit</p>
             </div>
 
             {/* Priority Selection */}
             <div className="form-section">
-                <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-700 mb-2">
-                    <span className="text-lg">📊</span>
-                    <span>Your Priorities</span>
-                    <span className="badge badge-primary">{selectedPriorities.length}/5</span>
-                </h3>
-                <p className="text-xs text-gray-500 mb-4">
-                    First priority = highest weight. Drag to reorder.
-                </p>
-
-                {/* Selected Priorities */}
-                {selectedPriorities.length > 0 && (
-                    <div className="space-y-2 mb-4">
-                        {selectedPriorities.map((priority, index) => {
-                            const dim = DIMENSIONS.find(d => d.value === priority);
-                            return (
-                                <div
-                                    key={priority}
-                                    className="flex items-center gap-3 rounded-xl bg-gradient-to-r from-primary-50 to-primary-100 p-3 border border-primary-200 animate-scale-in"
-                                >
-                                    <span className="w-7 h-7 flex items-center justify-center bg-primary-600 text-white text-sm font-bold rounded-lg shadow-sm">
-                                        {index + 1}
-                                    </span>
-                                    <span className="text-lg">{dim?.icon}</span>
-                                    <span className="flex-1 font-medium text-primary-900">{dim?.label}</span>
-                                    <div className="flex gap-1">
-                                        <button
-                                            type="button"
-                                            onClick={() => movePriority(priority, "up")}
-                                            disabled={index === 0}
-                                            className="p-1.5 rounded-lg text-primary-600 hover:bg-primary-200 disabled:opacity-30 transition-colors"
-                                            aria-label="Move up"
-                                        >
-                                            ↑
-                                        </button>
-                                        <button
-                                            type="button"
-                                            onClick={() => movePriority(priority, "down")}
-                                            disabled={index === selectedPriorities.length - 1}
-                                            className="p-1.5 rounded-lg text-primary-600 hover:bg-primary-200 disabled:opacity-30 transition-colors"
-                                            aria-label="Move down"
-                                        >
-                                            ↓
-                                        </button>
-                                        <button
-                                            type="button"
-                                            onClick={() => handlePriorityChange(priority, false)}
-                                            className="p-1.5 rounded-lg text-red-500 hover:bg-red-100 transition-colors"
-                                            aria-label="Remove"
-                                        >
-                                            ✕
-                                        </button>
-                                    </div>
-                                </div>
-                            );
-                        })}
-                    </div>
-                )}
-
-                {/* Available Dimensions */}
-                <div className="grid grid-cols-2 gap-2">
-                    {DIMENSIONS.filter(d => !selectedPriorities.includes(d.value)).map(dim => (
-                        <button
-                            key={dim.value}
-                            type="button"
-                            onClick={() => handlePriorityChange(dim.value, true)}
-                            disabled={selectedPriorities.length >= 5}
-                            className="flex items-center gap-2 p-3 rounded-xl border-2 border-gray-100 bg-white hover:border-primary-300 hover:bg-primary-50 transition-all disabled:opacity-40 disabled:cursor-not-allowed text-left"
-                        >
-                            <span>{dim.icon}</span>
-                            <span className="text-sm font-medium text-gray-700">{dim.label}</span>
-                        </button>
-                    ))}
-                </div>
+                <PrioritySelector value={selectedPriorities} onChange={setSelectedPriorities} />
 
                 {/* Hidden inputs */}
                 {selectedPriorities.map(priority => (
@@ -180,6 +149,35 @@ export default function ConstraintForm({ onSubmit }: ConstraintFormProps) {
                 ))}
             </div>
 
+            {/* Priority Weights */}
+            {selectedPriorities.length > 1 && (
+                <div className="form-section">
+                    <WeightSelector
+                        priorities={selectedPriorities}
+                        scheme={weightingScheme}
+                        onSchemeChange={setWeightingScheme}
+                        weights={customWeights}
+                        onWeightsChange={setCustomWeights}
+                    />
+                </div>
+            )}
+
+            {/* Score Normalization */}
+            <div className="form-section">
+                <label htmlFor="normalization" className="flex items-center gap-2 text-sm font-semibold text-gray-700 mb-3">
+                    <span className="text-lg">📐</span>
+                    <span>Score Normalization</span>
+                </label>
+                <select id="normalization" name="normalization" defaultValue="min_max" className="input-field">
+                    {NORMALIZATION_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+                <p className="mt-2 text-xs text-gray-500">
+                    Reference ranges keep scores stable when other phones enter or leave the shortlist
+                </p>
+            </div>
+
             {/* Required Features */}
             <div className="form-section">
                 <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-700 mb-4">
@@ -199,6 +197,48 @@ export default function ConstraintForm({ onSubmit }: ConstraintFormProps) {
                 </label>
             </div>
 
+            {/* Spec Ranges */}
+            <details className="form-section group">
+                <summary className="flex items-center gap-2 text-sm font-semibold text-gray-700 cursor-pointer list-none">
+                    <span className="text-lg">📏</span>
+                    <span>Spec Ranges</span>
+                    <span className="ml-auto text-xs text-gray-400 group-open:hidden">Optional</span>
+                </summary>
+                <p className="mt-3 mb-4 text-xs text-gray-500">
+                    Phones outside a range are eliminated, e.g. weight at most 190 g.
+                </p>
+                <div className="space-y-2">
+                    {RANGE_DIMENSIONS.map(dim => {
+                        const unit = getDimensionUnit(dim.value);
+                        return (
+                            <div key={dim.value} className="grid grid-cols-[1fr_6rem_6rem] items-center gap-2">
+                                <span className="text-sm font-medium text-gray-700">
+                                    {dim.icon} {dim.label}
+                                </span>
+                                <input
+                                    type="number"
+                                    name={`min_${dim.value}`}
+                                    min="0"
+                                    step="any"
+                                    placeholder={`Min ${unit}`}
+                                    aria-label={`Minimum ${dim.label}`}
+                                    className="input-field py-2 text-sm"
+                                />
+                                <input
+                                    type="number"
+                                    name={`max_${dim.value}`}
+                                    min="0"
+                                    step="any"
+                                    placeholder={`Max ${unit}`}
+                                    aria-label={`Maximum ${dim.label}`}
+                                    className="input-field py-2 text-sm"
+                                />
+                            </div>
+                        );
+                    })}
+                </div>
+            </details>
+
             {/* AI Enhancement */}
             <div className="panel-purple">
                 <div className="flex items-center justify-between mb-2">
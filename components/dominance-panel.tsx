@@ -0,0 +1,57 @@
+import { ComparisonResult } from "@/core/referee-engine/types";
+import { formatPhonePrice } from "@/lib/utils";
+
+interface DominancePanelProps {
+    result: ComparisonResult;
+}
+
+export default function DominancePanel({ result }: DominancePanelProps) {
+    const { dominated_phones, pareto_optimal_ids, qualified_phones } = result;
+    if (dominated_phones.length === 0) {
+        return null;
+    }
+
+    const phones = new Map(qualified_phones.map(p => [p.phone.id, p.phone]));
+    const { currency, region } = result.constraints_used;
+
+    return (
+        <div className="animate-slide-up">
+            <h2 className="section-title flex items-center gap-2 mb-4">
+                <span className="text-red-500">⛔</span>
+                <span>Never Choose</span>
+                <span className="badge bg-red-100 text-red-600">{dominated_phones.length}</span>
+            </h2>
+
+            <div className="panel">
+                <div className="space-y-2">
+                    {dominated_phones.map(entry => {
+                        const phone = phones.get(entry.phone_id);
+                        return (
+                            <div
+                                key={entry.phone_id}
+                                className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2 rounded-xl bg-gray-50 px-4 py-3"
+                            >
+                                <div className="flex items-center gap-3">
+                                    <span className="font-semibold text-gray-900 line-through decoration-red-400">
+                                        {phone?.name ?? entry.phone_id}
+                                    </span>
+                                    {phone && (
+                                        <span className="text-gray-400 font-medium">
+                                            {formatPhonePrice(phone, currency, region)}
+                                        </span>
+                                    )}
+                                </div>
+                                <p className="text-sm text-gray-600">{entry.explanation}</p>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <p className="mt-4 text-xs text-gray-500 italic text-center">
+                    * Another qualifying phone is at least as good on every priority. Worth considering:{" "}
+                    {pareto_optimal_ids.map(id => phones.get(id)?.name ?? id).join(", ")}
+                </p>
+            </div>
+        </div>
+    );
+}
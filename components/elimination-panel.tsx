@@ -1,8 +1,11 @@
-import { EliminatedPhone } from "@/core/referee-engine/types";
-import { formatPrice } from "@/lib/utils";
+import { Currency, EliminatedPhone } from "@/core/referee-engine/types";
+import { formatPhonePrice } from "@/lib/utils";
 
 interface EliminationPanelProps {
     eliminatedPhones: EliminatedPhone[];
+    currency?: Currency;
+    /** User's region, whose listed prices are shown */
+    region?: string;
 }
 
 const REASON_CONFIG: Record<string, { icon: string; bg: string; border: string; text: string }> = {
@@ -36,14 +39,26 @@ const REASON_CONFIG: Record<string, { icon: string; bg: string; border: string;
         border: "border-yellow-200",
         text: "text-yellow-800",
     },
+    OUT_OF_RANGE: {
+        icon: "📏",
+        bg: "bg-indigo-50",
+        border: "border-indigo-200",
+        text: "text-indigo-800",
+    },
+    EXCLUDED_BRAND: {
+        icon: "🏷️",
+        bg: "bg-blue-50",
+        border: "border-blue-200",
+        text: "text-blue-800",
+    },
 };
 
-export default function EliminationPanel({ eliminatedPhones }: EliminationPanelProps) {
+export default function EliminationPanel({ eliminatedPhones, currency = "USD", region }: EliminationPanelProps) {
     if (eliminatedPhones.length === 0) {
         return null;
     }
 
-    // Group by rejection reason
+    // Group by primary (first) rejection reason; each phone still lists every failure
     const grouped = eliminatedPhones.reduce((acc, ep) => {
         const reason = ep.rejection_reason;
         if (!acc[reason]) {
@@ -84,12 +99,26 @@ export default function EliminationPanel({ eliminatedPhones }: EliminationPanelP
                                         <div className="flex items-center gap-3">
                                             <span className="font-semibold text-gray-900">{ep.phone.name}</span>
                                             <span className="text-gray-400 font-medium">
-                                                {formatPrice(ep.phone.price_usd)}
+                                                {formatPhonePrice(ep.phone, currency, region)}
                                             </span>
+                                            {ep.failures.length > 1 && (
+                                                <span className="badge bg-gray-100 text-gray-600">
+                                                    {ep.failures.length} rules failed
+                                                </span>
+                                            )}
                                         </div>
-                                        <p className="text-sm text-gray-600">
-                                            {ep.rejection_details}
-                                        </p>
+                                        <ul className="space-y-1 text-sm text-gray-600 sm:text-right">
+                                            {ep.failures.map((failure, index) => (
+                                                <li key={index}>
+                                                    {ep.failures.length > 1 && (
+                                                        <span className="mr-1">
+                                                            {(REASON_CONFIG[failure.reason] ?? REASON_CONFIG.INCOMPLETE_DATA!).icon}
+                                                        </span>
+                                                    )}
+                                                    {failure.details}
+                                                </li>
+                                            ))}
+                                        </ul>
                                     </div>
                                 ))}
                             </div>
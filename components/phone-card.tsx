@@ -1,13 +1,18 @@
-import { PhoneWithScore } from "@/core/referee-engine/types";
-import { formatPrice, getDimensionDisplayName } from "@/lib/utils";
+import { Currency, PhoneWithScore } from "@/core/referee-engine/types";
+import { describeTieBreak, formatPhonePrice, getDimensionDisplayName } from "@/lib/utils";
 
 interface PhoneCardProps {
     phoneWithScore: PhoneWithScore;
     isTop?: boolean;
+    /** Statistically tied with another phone in its closeness band */
+    isTied?: boolean;
+    currency?: Currency;
+    /** User's region, whose listed price is shown */
+    region?: string;
 }
 
-export default function PhoneCard({ phoneWithScore, isTop = false }: PhoneCardProps) {
-    const { phone, dimension_scores, overall_rank, conditional_statement } = phoneWithScore;
+export default function PhoneCard({ phoneWithScore, isTop = false, isTied = false, currency = "USD", region }: PhoneCardProps) {
+    const { phone, dimension_scores, overall_rank, conditional_statement, tie_break, weighted_score, margin_below } = phoneWithScore;
 
     const getRankBadgeClass = (rank: number) => {
         switch (rank) {
@@ -37,8 +42,8 @@ export default function PhoneCard({ phoneWithScore, isTop = false }: PhoneCardPr
             {isTop && (
                 <div className="absolute top-4 left-4">
                     <span className="badge badge-success flex items-center gap-1">
-                        <span>🏆</span>
-                        <span>Top Match</span>
+                        <span>{isTied ? "🤝" : "🏆"}</span>
+                        <span>{isTied ? "Tied for Top" : "Top Match"}</span>
                     </span>
                 </div>
             )}
@@ -47,8 +52,14 @@ export default function PhoneCard({ phoneWithScore, isTop = false }: PhoneCardPr
             <div className="mb-5 pt-4">
                 <h3 className="text-xl font-bold text-gray-900 pr-12">{phone.name}</h3>
                 <p className="text-3xl font-extrabold mt-2">
-                    <span className="text-gradient">{formatPrice(phone.price_usd)}</span>
+                    <span className="text-gradient">{formatPhonePrice(phone, currency, region)}</span>
                 </p>
+                {isTied && !isTop && (
+                    <span className="badge bg-amber-100 text-amber-700 mt-2 mr-2">🤝 Statistically tied</span>
+                )}
+                {tie_break && (
+                    <span className="badge bg-amber-100 text-amber-700 mt-2">⚖️ {describeTieBreak(tie_break)}</span>
+                )}
             </div>
 
             {/* Key Specs Grid */}
@@ -91,9 +102,17 @@ export default function PhoneCard({ phoneWithScore, isTop = false }: PhoneCardPr
 
             {/* Priority Score Bars */}
             <div className="border-t border-gray-100 pt-4 mb-4">
-                <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">
-                    Priority Scores
-                </h4>
+                <div className="flex items-center justify-between mb-3">
+                    <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                        Priority Scores
+                    </h4>
+                    <span className="text-xs text-gray-500">
+                        Overall <span className="font-bold text-gray-800">{(weighted_score * 100).toFixed(1)}</span>
+                        {margin_below !== undefined && (
+                            <span>{" "}· {(margin_below * 100).toFixed(1)} ahead of next</span>
+                        )}
+                    </span>
+                </div>
                 <div className="space-y-3">
                     {Object.entries(dimension_scores).slice(0, 3).map(([dim, score]) => (
                         <div key={dim}>
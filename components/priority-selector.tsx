@@ -0,0 +1,126 @@
+"use client";
+
+import { ComparisonDimension } from "@/core/referee-engine/types";
+
+interface PrioritySelectorProps {
+    value: ComparisonDimension[];
+    onChange: (priorities: ComparisonDimension[]) => void;
+}
+
+export const MAX_PRIORITIES = 5;
+
+export const DIMENSIONS: { value: ComparisonDimension; label: string; icon: string }[] = [
+    { value: "battery_mah", label: "Battery Life", icon: "🔋" },
+    { value: "camera_mp", label: "Camera Quality", icon: "📷" },
+    { value: "price", label: "Value for Money", icon: "💰" },
+    { value: "screen_inches", label: "Screen Size", icon: "📱" },
+    { value: "storage_gb", label: "Storage", icon: "💾" },
+    { value: "processor_benchmark", label: "Performance", icon: "⚡" },
+    { value: "weight_grams", label: "Lightweight", icon: "🪶" },
+    { value: "ram_gb", label: "RAM", icon: "🧠" },
+    { value: "refresh_rate_hz", label: "Smooth Display", icon: "🖥️" },
+    { value: "fast_charging_w", label: "Fast Charging", icon: "🔌" },
+];
+
+/**
+ * Ordered priority picker shared by the constraint form and the selection page
+ */
+export default function PrioritySelector({ value, onChange }: PrioritySelectorProps) {
+    const handlePriorityChange = (dimension: ComparisonDimension, checked: boolean) => {
+        if (checked && value.length < MAX_PRIORITIES) {
+            onChange([...value, dimension]);
+        } else if (!checked) {
+            onChange(value.filter(p => p !== dimension));
+        }
+    };
+
+    const movePriority = (dimension: ComparisonDimension, direction: "up" | "down") => {
+        const index = value.indexOf(dimension);
+        if (index === -1) return;
+
+        const newIndex = direction === "up" ? index - 1 : index + 1;
+        if (newIndex < 0 || newIndex >= value.length) return;
+
+        const newPriorities = [...value];
+        [newPriorities[index], newPriorities[newIndex]] = [newPriorities[newIndex]!, newPriorities[index]!];
+        onChange(newPriorities);
+    };
+
+    return (
+        <>
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-700 mb-2">
+                <span className="text-lg">📊</span>
+                <span>Your Priorities</span>
+                <span className="badge badge-primary">{value.length}/{MAX_PRIORITIES}</span>
+            </h3>
+            <p className="text-xs text-gray-500 mb-4">
+                First priority = highest weight. Drag to reorder.
+            </p>
+
+            {/* Selected Priorities */}
+            {value.length > 0 && (
+                <div className="space-y-2 mb-4">
+                    {value.map((priority, index) => {
+                        const dim = DIMENSIONS.find(d => d.value === priority);
+                        return (
+                            <div
+                                key={priority}
+                                className="flex items-center gap-3 rounded-xl bg-gradient-to-r from-primary-50 to-primary-100 p-3 border border-primary-200 animate-scale-in"
+                            >
+                                <span className="w-7 h-7 flex items-center justify-center bg-primary-600 text-white text-sm font-bold rounded-lg shadow-sm">
+                                    {index + 1}
+                                </span>
+                                <span className="text-lg">{dim?.icon}</span>
+                                <span className="flex-1 font-medium text-primary-900">{dim?.label}</span>
+                                <div className="flex gap-1">
+                                    <button
+                                        type="button"
+                                        onClick={() => movePriority(priority, "up")}
+                                        disabled={index === 0}
+                                        className="p-1.5 rounded-lg text-primary-600 hover:bg-primary-200 disabled:opacity-30 transition-colors"
+                                        aria-label="Move up"
+                                    >
+                                        ↑
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => movePriority(priority, "down")}
+                                        disabled={index === value.length - 1}
+                                        className="p-1.5 rounded-lg text-primary-600 hover:bg-primary-200 disabled:opacity-30 transition-colors"
+                                        aria-label="Move down"
+                                    >
+                                        ↓
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => handlePriorityChange(priority, false)}
+                                        className="p-1.5 rounded-lg text-red-500 hover:bg-red-100 transition-colors"
+                                        aria-label="Remove"
+                                    >
+                                        ✕
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {/* Available Dimensions */}
+            <div className="grid grid-cols-2 gap-2">
+                {DIMENSIONS.filter(d => !value.includes(d.value)).map(dim => (
+                    <button
+                        key={dim.value}
+                        type="button"
+                        onClick={() => handlePriorityChange(dim.value, true)}
+                        disabled={value.length >= MAX_PRIORITIES}
+                        className="flex items-center gap-2 p-3 rounded-xl border-2 border-gray-100 bg-white hover:border-primary-300 hover:bg-primary-50 transition-all disabled:opacity-40 disabled:cursor-not-allowed text-left"
+                    >
+                        <span>{dim.icon}</span>
+                        <span className="text-sm font-medium text-gray-700">{dim.label}</span>
+                    </button>
+                ))}
+            </div>
+        </>
+    );
+}
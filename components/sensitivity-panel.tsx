@@ -30,13 +30,69 @@ const TYPE_CONFIG: Record<string, { icon: string; gradient: string; border: stri
         gradient: "from-orange-50 to-red-50",
         border: "border-orange-200",
     },
+    relax_bound: {
+        icon: "📏",
+        gradient: "from-indigo-50 to-blue-50",
+        border: "border-indigo-200",
+    },
+    weight_change: {
+        icon: "⚖️",
+        gradient: "from-teal-50 to-cyan-50",
+        border: "border-teal-200",
+    },
 };
 
+/**
+ * Split "IF ..., THEN ..." into its two halves
+ */
+function splitStatement(statement: string): { condition: string; outcome?: string } {
+    const [condition, outcome] = statement.replace(/^IF\s*/i, "").split(/,?\s*THEN\s*/);
+    return { condition: condition?.trim() || statement, outcome: outcome?.trim() };
+}
+
+function BudgetTimeline({ rules }: { rules: SensitivityRule[] }) {
+    return (
+        <div className="panel mb-4">
+            <h3 className="flex items-center gap-2 font-semibold text-gray-800 mb-4">
+                <span className="text-2xl">📉</span>
+                <span>Budget Timeline</span>
+            </h3>
+            <p className="text-sm text-gray-500 mb-4">How far you can cut the budget, and who leads at each step</p>
+
+            <ol className="relative ml-3 border-l-2 border-amber-200 space-y-5">
+                {rules.map((rule, index) => {
+                    const { condition, outcome } = splitStatement(rule.conditional_statement);
+                    return (
+                        <li key={index} className="ml-5">
+                            <span className="absolute -left-[9px] mt-1 h-4 w-4 rounded-full border-2 border-white bg-amber-400" />
+                            <p className="text-sm font-semibold text-gray-800 capitalize">{condition}</p>
+                            {outcome && <p className="text-sm text-gray-700">{outcome}</p>}
+                            <p className="text-xs text-gray-500 mt-1">{rule.impact}</p>
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+}
+
+/**
+ * Budget timeline steps carry the price they fall below; budget cuts from the top-pick flip search don't
+ */
+function isTimelineStep(rule: SensitivityRule): boolean {
+    return rule.adjustment_type === "budget_decrease" && typeof rule.adjustment_details.threshold === "number";
+}
+
 export default function SensitivityPanel({ sensitivityRules }: SensitivityPanelProps) {
     if (sensitivityRules.length === 0) {
         return null;
     }
 
+    const timeline = sensitivityRules
+        .filter(isTimelineStep)
+        .sort((a, b) => Number(b.adjustment_details.threshold) - Number(a.adjustment_details.threshold));
+    const scenarios = sensitivityRules.filter(r => !isTimelineStep(r));
+
     return (
         <div className="animate-slide-up">
             <h2 className="section-title flex items-center gap-2 mb-4">
@@ -44,8 +100,10 @@ export default function SensitivityPanel({ sensitivityRules }: SensitivityPanelP
                 <span>What-If Scenarios</span>
             </h2>
 
+            {timeline.length > 0 && <BudgetTimeline rules={timeline} />}
+
             <div className="grid gap-4 md:grid-cols-2">
-                {sensitivityRules.map((rule, index) => {
+                {scenarios.map((rule, index) => {
                     const config = TYPE_CONFIG[rule.adjustment_type] ?? TYPE_CONFIG.priority_reorder!;
 
                     return (
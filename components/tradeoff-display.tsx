@@ -1,14 +1,49 @@
-import { TradeOffPair } from "@/core/referee-engine/types";
+import { ComparisonResult, TradeOffPair } from "@/core/referee-engine/types";
 
 interface TradeOffDisplayProps {
-    tradeOffs: TradeOffPair[];
+    result: ComparisonResult;
 }
 
-export default function TradeOffDisplay({ tradeOffs }: TradeOffDisplayProps) {
-    if (tradeOffs.length === 0) {
+function TradeOffList({ title, tradeOffs, tone }: { title: string; tradeOffs: TradeOffPair[]; tone: "gain" | "loss" }) {
+    return (
+        <div>
+            <h4 className={`text-xs font-semibold uppercase tracking-wide mb-2 ${
+                tone === "gain" ? "text-green-600" : "text-red-500"
+            }`}>
+                {title}
+            </h4>
+            {tradeOffs.length === 0 ? (
+                <p className="text-sm text-gray-400 italic">Nothing</p>
+            ) : (
+                <ul className="space-y-1.5">
+                    {tradeOffs.map(tradeOff => (
+                        <li key={tradeOff.dimension} className="flex items-start gap-2 text-sm text-gray-700">
+                            <span className="mt-0.5">{tone === "gain" ? "➕" : "➖"}</span>
+                            <span className={tradeOff.prioritized ? "" : "text-gray-500"}>
+                                {tradeOff.explanation}
+                                {tradeOff.significance === "major" && (
+                                    <span className="badge ml-2 bg-amber-100 text-amber-700">major</span>
+                                )}
+                                {!tradeOff.prioritized && (
+                                    <span className="badge ml-2 bg-gray-100 text-gray-500">not a priority</span>
+                                )}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
+
+export default function TradeOffDisplay({ result }: TradeOffDisplayProps) {
+    const { trade_off_matrix, qualified_phones } = result;
+    if (trade_off_matrix.length === 0) {
         return null;
     }
 
+    const names = new Map(qualified_phones.map(p => [p.phone.id, p.phone.name]));
+
     return (
         <div className="animate-slide-up">
             <h2 className="section-title flex items-center gap-2 mb-4">
@@ -17,20 +52,42 @@ export default function TradeOffDisplay({ tradeOffs }: TradeOffDisplayProps) {
             </h2>
 
             <div className="panel-purple">
-                <div className="grid gap-3 md:grid-cols-2">
-                    {tradeOffs.map((tradeOff, index) => (
-                        <div
-                            key={`${tradeOff.phone_a_id}-${tradeOff.phone_b_id}-${tradeOff.dimension}-${index}`}
-                            className="flex items-start gap-3 bg-white/80 rounded-xl p-4 border border-accent-100"
-                        >
-                            <span className="text-accent-500 text-lg mt-0.5">↔️</span>
-                            <p className="text-gray-700 text-sm leading-relaxed">{tradeOff.explanation}</p>
-                        </div>
-                    ))}
+                <div className="space-y-3">
+                    {trade_off_matrix.map((pair, index) => {
+                        const nameA = names.get(pair.phone_a_id) ?? pair.phone_a_id;
+                        const nameB = names.get(pair.phone_b_id) ?? pair.phone_b_id;
+                        return (
+                            <details
+                                key={`${pair.phone_a_id}-${pair.phone_b_id}`}
+                                open={index === 0}
+                                className="group bg-white/80 rounded-xl border border-accent-100"
+                            >
+                                <summary className="flex cursor-pointer items-center justify-between gap-3 p-4">
+                                    <span className="flex items-center gap-3">
+                                        <span className="text-accent-500 text-lg">↔️</span>
+                                        <span className="font-semibold text-gray-900">
+                                            {nameA} <span className="text-gray-400 font-normal">vs</span> {nameB}
+                                        </span>
+                                        {pair.rank_gap === 1 && (
+                                            <span className="badge bg-accent-100 text-accent-700">Adjacent ranks</span>
+                                        )}
+                                    </span>
+                                    <span className="text-xs text-gray-500 whitespace-nowrap">
+                                        {pair.gains.length} gains · {pair.sacrifices.length} sacrifices
+                                    </span>
+                                </summary>
+
+                                <div className="grid gap-4 border-t border-accent-100 p-4 md:grid-cols-2">
+                                    <TradeOffList title={`${nameA} gains`} tradeOffs={pair.gains} tone="gain" />
+                                    <TradeOffList title={`${nameA} sacrifices`} tradeOffs={pair.sacrifices} tone="loss" />
+                                </div>
+                            </details>
+                        );
+                    })}
                 </div>
 
                 <p className="mt-4 text-xs text-accent-600 italic text-center">
-                    * Trade-offs shown for top prioritized dimensions only
+                    * Neighbouring ranks first; dimensions outside your priorities are marked and negligible differences hidden
                 </p>
             </div>
         </div>
@@ -0,0 +1,107 @@
+"use client";
+
+import { ComparisonDimension, WeightingScheme } from "@/core/referee-engine/types";
+import { getSchemeWeights } from "@/core/referee-engine/scoring";
+import { DIMENSIONS } from "@/components/priority-selector";
+
+export type WeightingChoice = WeightingScheme | "custom";
+
+export const DEFAULT_SLIDER_WEIGHT = 50;
+
+const SCHEMES: { value: WeightingChoice; label: string; hint: string }[] = [
+    { value: "exponential", label: "Exponential", hint: "Each priority counts half as much as the one above" },
+    { value: "linear", label: "Linear", hint: "Each priority counts a little less than the one above" },
+    { value: "rank_sum", label: "Rank Sum", hint: "Weights follow rank: 3, 2, 1" },
+    { value: "equal", label: "Equal", hint: "All priorities count the same" },
+    { value: "custom", label: "Custom", hint: "Set each weight yourself" },
+];
+
+interface WeightSelectorProps {
+    priorities: ComparisonDimension[];
+    scheme: WeightingChoice;
+    onSchemeChange: (scheme: WeightingChoice) => void;
+    weights: Partial<Record<ComparisonDimension, number>>;
+    onWeightsChange: (weights: Partial<Record<ComparisonDimension, number>>) => void;
+}
+
+export default function WeightSelector({
+    priorities,
+    scheme,
+    onSchemeChange,
+    weights,
+    onWeightsChange,
+}: WeightSelectorProps) {
+    const raw = scheme === "custom"
+        ? priorities.map(p => weights[p] ?? DEFAULT_SLIDER_WEIGHT)
+        : getSchemeWeights(scheme, priorities.length);
+    const total = raw.reduce((sum, w) => sum + w, 0);
+    const active = SCHEMES.find(s => s.value === scheme);
+
+    return (
+        <div>
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-700 mb-3">
+                <span className="text-lg">⚖️</span>
+                <span>Priority Weights</span>
+            </h3>
+
+            <div className="flex flex-wrap gap-2 mb-2">
+                {SCHEMES.map(option => (
+                    <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => onSchemeChange(option.value)}
+                        className={`badge transition-colors ${
+                            scheme === option.value ? "badge-primary" : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                        }`}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+            {active && <p className="text-xs text-gray-500 mb-4">{active.hint}</p>}
+
+            <div className="space-y-3">
+                {priorities.map((priority, index) => {
+                    const dim = DIMENSIONS.find(d => d.value === priority);
+                    const share = total > 0 ? ((raw[index] ?? 0) / total) * 100 : 0;
+                    return (
+                        <div key={priority}>
+                            <div className="flex items-center justify-between text-sm mb-1">
+                                <span className="font-medium text-gray-700">
+                                    {dim?.icon} {dim?.label ?? priority}
+                                </span>
+                                <span className="font-semibold text-primary-600">{share.toFixed(0)}%</span>
+                            </div>
+                            <input
+                                type="range"
+                                min="0"
+                                max="100"
+                                step="5"
+                                value={scheme === "custom" ? weights[priority] ?? DEFAULT_SLIDER_WEIGHT : Math.round(share)}
+                                disabled={scheme !== "custom"}
+                                onChange={(e) => onWeightsChange({ ...weights, [priority]: Number(e.target.value) })}
+                                aria-label={`${dim?.label ?? priority} weight`}
+                                className="w-full accent-primary-600 disabled:opacity-50"
+                            />
+                        </div>
+                    );
+                })}
+            </div>
+
+            {scheme === "custom" && total === 0 && (
+                <p className="mt-2 text-xs text-red-500">At least one weight must be above zero</p>
+            )}
+
+            {/* Hidden inputs */}
+            <input type="hidden" name="weighting_scheme" value={scheme} />
+            {scheme === "custom" && priorities.map(priority => (
+                <input
+                    key={priority}
+                    type="hidden"
+                    name={`weight_${priority}`}
+                    value={weights[priority] ?? DEFAULT_SLIDER_WEIGHT}
+                />
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { Phone, UserConstraintsSchema } from "./types";
+import { getRegionCurrency, resolvePhonePrice } from "./currency";
+import { checkBudgetConstraint, checkRegionConstraint } from "./rules";
+
+// Listed at $499 in the US and ₹47,999 (≈$575) in India
+const phone: Phone = {
+    id: "test-phone",
+    name: "Test Phone",
+    specs: { has_5g: true, battery_mah: 5000 },
+    regions: {
+        US: { status: "available", price: { amount: 499, currency: "USD" } },
+        IN: { status: "available", price: { amount: 47999, currency: "INR" } },
+    },
+};
+
+describe("resolvePhonePrice", () => {
+    it("uses the price listed in the user's region, converted to the requested currency", () => {
+        expect(resolvePhonePrice(phone, "USD", "IN")).toEqual({
+            amount: 575,
+            currency: "USD",
+            converted_from: { amount: 47999, currency: "INR" },
+        });
+    });
+
+    it("uses the regional price as listed when the currencies match", () => {
+        expect(resolvePhonePrice(phone, "USD", "US")).toEqual({ amount: 499, currency: "USD" });
+    });
+
+    it("falls back to other regions when the user's region lists no price", () => {
+        const unpriced: Phone = {
+            ...phone,
+            regions: { ...phone.regions, DE: { status: "available" } },
+        };
+        expect(resolvePhonePrice(unpriced, "USD", "DE")).toEqual({ amount: 499, currency: "USD" });
+    });
+});
+
+describe("checkBudgetConstraint", () => {
+    it("judges the budget against the user's region rather than another region's listing", () => {
+        const constraints = UserConstraintsSchema.parse({
+            budget: 520,
+            prioritized_dimensions: ["battery_mah"],
+            region: "IN",
+            currency: "USD",
+        });
+
+        const result = checkBudgetConstraint(phone, constraints);
+        expect(result.passed).toBe(false);
+        expect(result.reason).toBe("EXCEEDS_BUDGET");
+        expect(result.details).toContain("converted from ₹47,999");
+    });
+
+    it("passes the same budget in the region where the phone is listed below it", () => {
+        const constraints = UserConstraintsSchema.parse({
+            budget: 520,
+            prioritized_dimensions: ["battery_mah"],
+            region: "US",
+            currency: "USD",
+        });
+
+        expect(checkBudgetConstraint(phone, constraints).passed).toBe(true);
+    });
+});
+
+describe("region codes", () => {
+    const british: Phone = {
+        ...phone,
+        regions: { GB: { status: "available", price: { amount: 449, currency: "GBP" } } },
+    };
+
+    it("accepts UK for the ISO code GB", () => {
+        const constraints = UserConstraintsSchema.parse({ prioritized_dimensions: ["battery_mah"], region: "uk" });
+
+        expect(constraints.region).toBe("GB");
+        expect(getRegionCurrency("UK")).toBe("GBP");
+        expect(checkRegionConstraint(british, constraints).passed).toBe(true);
+    });
+});
@@ -0,0 +1,104 @@
+import { Currency, Phone, PriceTable, RequestedRegionSchema } from "./types";
+
+/**
+ * Offline exchange rates (units of each currency per 1 USD), used only when a
+ * phone has no listed price in the requested currency
+ */
+export const EXCHANGE_RATES: Record<Currency, number> = {
+    USD: 1,
+    INR: 83.5,
+    GBP: 0.79,
+    EUR: 0.92,
+};
+
+/**
+ * Date the offline exchange-rate table was last updated
+ */
+export const EXCHANGE_RATES_AS_OF = "2024-06-01";
+
+/**
+ * Default currency for each market region
+ */
+export const REGION_CURRENCIES: Record<string, Currency> = {
+    US: "USD",
+    IN: "INR",
+    GB: "GBP",
+    DE: "EUR",
+    FR: "EUR",
+    IT: "EUR",
+    ES: "EUR",
+    NL: "EUR",
+};
+
+/**
+ * Currency used in a region, USD when unknown
+ */
+export function getRegionCurrency(region: string): Currency {
+    const code = RequestedRegionSchema.safeParse(region);
+    return (code.success ? REGION_CURRENCIES[code.data] : undefined) ?? "USD";
+}
+
+/**
+ * Convert an amount between currencies using the offline exchange-rate table
+ */
+export function convertPrice(amount: number, from: Currency, to: Currency): number {
+    if (from === to) return amount;
+    return Math.round((amount / EXCHANGE_RATES[from]) * EXCHANGE_RATES[to]);
+}
+
+/**
+ * A price in the requested currency, noting the listed price it was converted from
+ */
+export interface PriceQuote {
+    amount: number;
+    currency: Currency;
+    converted_from?: { amount: number; currency: Currency };
+}
+
+/**
+ * Resolve a price table to the requested currency.
+ * Listed prices win; otherwise the first listed price is converted offline.
+ */
+export function resolvePrice(prices: PriceTable, currency: Currency): PriceQuote | undefined {
+    const listed = prices[currency];
+    if (listed !== undefined) {
+        return { amount: listed, currency };
+    }
+
+    const [source] = Object.entries(prices) as [Currency, number][];
+    if (!source) return undefined;
+
+    const [from, amount] = source;
+    return {
+        amount: convertPrice(amount, from, currency),
+        currency,
+        converted_from: { amount, currency: from },
+    };
+}
+
+/**
+ * Listed prices of a phone by currency, collected from its regions.
+ * When several regions list the same currency, the first region wins.
+ */
+export function getPhonePrices(phone: Phone): PriceTable {
+    const prices: PriceTable = {};
+    for (const entry of Object.values(phone.regions)) {
+        if (entry.price && prices[entry.price.currency] === undefined) {
+            prices[entry.price.currency] = entry.price.amount;
+        }
+    }
+    return prices;
+}
+
+/**
+ * Resolve a phone's price in the requested currency.
+ * The price listed in the user's region wins, converted when it is listed in another
+ * currency; other regions are only consulted when that region lists no price.
+ */
+export function resolvePhonePrice(phone: Phone, currency: Currency, region?: string): PriceQuote | undefined {
+    const local = region !== undefined ? phone.regions[region]?.price : undefined;
+    if (local) {
+        return resolvePrice({ [local.currency]: local.amount }, currency);
+    }
+    return resolvePrice(getPhonePrices(phone), currency);
+}
@@ -0,0 +1,109 @@
+import { z } from "zod";
+import { defineFeatureRule, RegisteredRule } from "./rule-registry";
+
+const positiveNumber = z.number().positive();
+
+/**
+ * Built-in rules for `required_features`.
+ * Each rule id is the `required_features` key it consumes.
+ */
+export const FEATURE_RULES: RegisteredRule[] = [
+    defineFeatureRule({
+        id: "has_5g",
+        schema: z.boolean(),
+        evaluate: (phone, required) => {
+            if (required && !phone.specs.has_5g) {
+                return { passed: false, details: `${phone.name} lacks 5G support` };
+            }
+            return { passed: true };
+        },
+    }),
+
+    defineFeatureRule({
+        id: "min_storage_gb",
+        schema: positiveNumber,
+        evaluate: (phone, minimum) => {
+            const storage = phone.specs.storage_gb;
+            if (storage === undefined || storage < minimum) {
+                return {
+                    passed: false,
+                    details: `${phone.name} has ${storage ?? "unknown"}GB storage, requires minimum ${minimum}GB`,
+                };
+            }
+            return { passed: true };
+        },
+    }),
+
+    defineFeatureRule({
+        id: "min_screen_inches",
+        schema: positiveNumber,
+        evaluate: (phone, minimum) => {
+            const screen = phone.specs.screen_inches;
+            if (screen === undefined || screen < minimum) {
+                return {
+                    passed: false,
+                    details: `${phone.name} has ${screen ?? "unknown"}" screen, requires minimum ${minimum}"`,
+                };
+            }
+            return { passed: true };
+        },
+    }),
+
+    defineFeatureRule({
+        id: "min_ram_gb",
+        schema: positiveNumber,
+        evaluate: (phone, minimum) => {
+            const ram = phone.specs.ram_gb;
+            if (ram === undefined || ram < minimum) {
+                return {
+                    passed: false,
+                    details: `${phone.name} has ${ram ?? "unknown"}GB RAM, requires minimum ${minimum}GB`,
+                };
+            }
+            return { passed: true };
+        },
+    }),
+
+    defineFeatureRule({
+        id: "max_weight_grams",
+        schema: positiveNumber,
+        evaluate: (phone, maximum) => {
+            const weight = phone.specs.weight_grams;
+            if (weight === undefined || weight > maximum) {
+                return {
+                    passed: false,
+                    details: `${phone.name} weighs ${weight ?? "unknown "}g, maximum allowed is ${maximum}g`,
+                };
+            }
+            return { passed: true };
+        },
+    }),
+
+    defineFeatureRule({
+        id: "min_refresh_rate_hz",
+        schema: positiveNumber,
+        evaluate: (phone, minimum) => {
+            const refreshRate = phone.specs.refresh_rate_hz;
+            if (refreshRate === undefined || refreshRate < minimum) {
+                return {
+                    passed: false,
+                    details: `${phone.name} has ${refreshRate ?? "unknown "}Hz refresh rate, requires minimum ${minimum}Hz`,
+                };
+            }
+            return { passed: true };
+        },
+    }),
+
+    defineFeatureRule({
+        id: "excluded_brands",
+        reason: "EXCLUDED_BRAND",
+        schema: z.array(z.string().min(1)).min(1),
+        evaluate: (phone, brands) => {
+            const brand = phone.brand?.toLowerCase();
+            if (brand !== undefined && brands.some(b => b.toLowerCase() === brand)) {
+                return { passed: false, details: `${phone.name} is made by an excluded brand (${phone.brand})` };
+            }
+            return { passed: true };
+        },
+    }),
+];
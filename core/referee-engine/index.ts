@@ -5,23 +5,58 @@ import {
     ComparisonMetadata
 } from "./types";
 import { applyAllRules, validateConstraints } from "./rules";
-import { scoreAndRankPhones } from "./scoring";
-import { calculatePairwiseTradeOffs } from "./tradeoffs";
+import {
+    DEFAULT_TIE_EPSILON,
+    DEFAULT_WEIGHTING_SCHEME,
+    resolvePriorityWeights,
+    scoreAndRankPhones
+} from "./scoring";
+import { DEFAULT_NORMALIZATION } from "./normalization";
+import {
+    buildTradeOffMatrix,
+    calculateParetoDominance,
+    calculatePairwiseTradeOffs
+} from "./tradeoffs";
 import { generateSensitivityRules } from "./sensitivity";
-import { loadPhoneDatabase } from "@/lib/utils";
+import {
+    CatalogSnapshot,
+    hashConstraints,
+    hashEngineConfig,
+    hashPhoneCatalog,
+    REFEREE_ENGINE_VERSION,
+    ScoringMetadata
+} from "./versioning";
+import { loadPhoneDatabase } from "@/lib/json-loader";
 
 /**
- * Main referee engine version
+ * Describe the normalization, priority weights and tie epsilon applied for the result metadata
  */
-export const REFEREE_ENGINE_VERSION = "1.0.0";
+function getScoringMetadata(constraints: UserConstraints): ScoringMetadata {
+    return {
+        normalization: constraints.normalization ?? DEFAULT_NORMALIZATION,
+        weighting_scheme: constraints.dimension_weights
+            ? "custom"
+            : constraints.weighting_scheme ?? DEFAULT_WEIGHTING_SCHEME,
+        weights_used: resolvePriorityWeights(constraints),
+        tie_epsilon: constraints.tie_epsilon ?? DEFAULT_TIE_EPSILON,
+    };
+}
 
 /**
- * Generate phone database version hash
+ * Content hashes of the catalog, constraints and engine config a result was produced from,
+ * plus the scoring settings, for the result metadata
  */
-function getPhoneDatabaseVersion(phones: Phone[]): string {
-    // Simple hash based on count and first/last phone IDs
-    const ids = phones.map(p => p.id).sort();
-    return `v1-${phones.length}-${ids[0]?.slice(0, 4) || 'empty'}`;
+function getVersionMetadata(
+    phones: Phone[],
+    constraints: UserConstraints
+): Pick<ComparisonMetadata, "phone_database_version" | "constraints_hash" | "engine_config_hash"> & ScoringMetadata {
+    const scoring = getScoringMetadata(constraints);
+    return {
+        phone_database_version: hashPhoneCatalog(phones),
+        constraints_hash: hashConstraints(constraints),
+        engine_config_hash: hashEngineConfig(scoring),
+        ...scoring,
+    };
 }
 
 /**
@@ -29,13 +64,21 @@ function getPhoneDatabaseVersion(phones: Phone[]): string {
  * 
  * This is the main entry point for the referee engine.
  * It applies all rules, scores qualified phones, generates trade-offs,
- * and produces sensitivity analysis.
+ * and produces sensitivity analysis. To reproduce an earlier recommendation,
+ * pass a catalog snapshot: its phones must still hash to its id, and its
+ * date is recorded as `as_of`.
  */
 export function evaluatePhones(
-    phones: Phone[],
+    catalog: Phone[] | CatalogSnapshot,
     constraints: UserConstraints
 ): ComparisonResult {
     const startTime = performance.now();
+    const snapshot = Array.isArray(catalog) ? undefined : catalog;
+    const phones = Array.isArray(catalog) ? catalog : catalog.phones;
+
+    if (snapshot && hashPhoneCatalog(snapshot.phones) !== snapshot.id) {
+        throw new Error(`Catalog snapshot ${snapshot.date} does not match its id ${snapshot.id}`);
+    }
 
     // Validate constraints
     const errors = validateConstraints(constraints);
@@ -52,7 +95,23 @@ export function evaluatePhones(
     // Step 3: Calculate trade-offs between qualified phones
     const tradeOffs = calculatePairwiseTradeOffs(
         rankedPhones,
-        constraints.prioritized_dimensions
+        constraints.prioritized_dimensions,
+        constraints.prioritized_dimensions.length,
+        constraints.currency,
+        false,
+        constraints.region
+    );
+    const tradeOffMatrix = buildTradeOffMatrix(rankedPhones, constraints.prioritized_dimensions, {
+        currency: constraints.currency,
+        region: constraints.region,
+    });
+
+    // Step 3b: Flag Pareto-optimal and dominated phones
+    const pareto = calculateParetoDominance(
+        rankedPhones,
+        constraints.prioritized_dimensions,
+        constraints.currency,
+        constraints.region
     );
 
     // Step 4: Generate sensitivity analysis
@@ -67,15 +126,19 @@ export function evaluatePhones(
     // Build metadata
     const metadata: ComparisonMetadata = {
         timestamp: new Date().toISOString(),
-        phone_database_version: getPhoneDatabaseVersion(phones),
         referee_engine_version: REFEREE_ENGINE_VERSION,
         execution_time_ms: Math.round(endTime - startTime),
+        ...getVersionMetadata(phones, constraints),
+        as_of: snapshot?.date,
     };
 
     return {
         qualified_phones: rankedPhones,
         eliminated_phones: eliminatedPhones,
         trade_offs: tradeOffs,
+        trade_off_matrix: tradeOffMatrix,
+        pareto_optimal_ids: pareto.paretoOptimalIds,
+        dominated_phones: pareto.dominated,
         sensitivity_rules: sensitivityRules,
         constraints_used: constraints,
         metadata,
@@ -86,18 +149,17 @@ export function evaluatePhones(
  * Evaluate user-selected phones (User-Selected Mode)
  * 
  * Skip constraint filtering and directly compare the selected phones.
+ * Phones are looked up in `catalog`, the JSON database by default.
  */
 export function evaluateSelectedPhones(
     selectedPhoneIds: string[],
-    prioritizedDimensions: UserConstraints["prioritized_dimensions"]
+    prioritizedDimensions: UserConstraints["prioritized_dimensions"],
+    catalog: Phone[] = loadPhoneDatabase()
 ): ComparisonResult {
     const startTime = performance.now();
 
-    // Load phone database
-    const allPhones = loadPhoneDatabase();
-
     // Get selected phones
-    const selectedPhones = allPhones.filter(p => selectedPhoneIds.includes(p.id));
+    const selectedPhones = catalog.filter(p => selectedPhoneIds.includes(p.id));
 
     if (selectedPhones.length < 2) {
         throw new Error("At least 2 phones are required for comparison");
@@ -107,6 +169,7 @@ export function evaluateSelectedPhones(
     const constraints: UserConstraints = {
         prioritized_dimensions: prioritizedDimensions,
         region: "US",
+        currency: "USD",
     };
 
     // Score and rank the selected phones
@@ -117,6 +180,10 @@ export function evaluateSelectedPhones(
         rankedPhones,
         prioritizedDimensions
     );
+    const tradeOffMatrix = buildTradeOffMatrix(rankedPhones, prioritizedDimensions);
+
+    // Flag Pareto-optimal and dominated phones
+    const pareto = calculateParetoDominance(rankedPhones, prioritizedDimensions);
 
     // Generate sensitivity (priority reordering only)
     const sensitivityRules = generateSensitivityRules(
@@ -129,15 +196,18 @@ export function evaluateSelectedPhones(
 
     const metadata: ComparisonMetadata = {
         timestamp: new Date().toISOString(),
-        phone_database_version: getPhoneDatabaseVersion(allPhones),
         referee_engine_version: REFEREE_ENGINE_VERSION,
         execution_time_ms: Math.round(endTime - startTime),
+        ...getVersionMetadata(catalog, constraints),
     };
 
     return {
         qualified_phones: rankedPhones,
         eliminated_phones: [], // No eliminations in user-selected mode
         trade_offs: tradeOffs,
+        trade_off_matrix: tradeOffMatrix,
+        pareto_optimal_ids: pareto.paretoOptimalIds,
+        dominated_phones: pareto.dominated,
         sensitivity_rules: sensitivityRules,
         constraints_used: constraints,
         metadata,
@@ -146,4 +216,20 @@ export function evaluateSelectedPhones(
 
 // Re-export types for convenience
 export * from "./types";
-export { loadPhoneDatabase } from "@/lib/utils";
+export {
+    defineRule,
+    defineFeatureRule,
+    registerRule,
+    getRegisteredRules,
+    getFeatureRuleIds,
+} from "./rule-registry";
+export type { EliminationRule, FeatureRule, RegisteredRule, RuleCheckResult } from "./rule-registry";
+export type { CatalogSnapshot } from "./versioning";
+export {
+    REFEREE_ENGINE_VERSION,
+    diffCatalogs,
+    hashPhoneCatalog,
+    verifyReproducibility,
+} from "./versioning";
+export type { CatalogDiff, PriceChange, ReproducibilityCheck } from "./versioning";
+export { loadPhoneDatabase } from "@/lib/json-loader";
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { UserConstraintsSchema } from "./types";
+import { normalizeDimensionValues } from "./normalization";
+import { evaluatePhones } from "./index";
+import { makePhone } from "./test-helpers";
+
+describe("normalizeDimensionValues", () => {
+    // One 200 MP outlier among 50-64 MP cameras
+    const cameras = [50, 50, 64, 200];
+
+    it("min_max lets one outlier crush the rest", () => {
+        const scores = normalizeDimensionValues(cameras, "camera_mp", "min_max", false);
+
+        expect(scores[0]).toBe(0);
+        expect(scores[2]).toBeCloseTo(14 / 150, 6);
+        expect(scores[3]).toBe(1);
+    });
+
+    it("percentile ranks by order alone, counting ties as half", () => {
+        expect(normalizeDimensionValues(cameras, "camera_mp", "percentile", false)).toEqual([1 / 6, 1 / 6, 2 / 3, 1]);
+        expect(normalizeDimensionValues([399, 499, 599], "price", "percentile", true)).toEqual([1, 0.5, 0]);
+    });
+
+    it("z_score clamps outliers at two standard deviations", () => {
+        // mean 10, sd 30: the outlier's z of 3 is clamped to 2
+        const values = [0, 0, 0, 0, 0, 0, 0, 0, 0, 100];
+        const scores = normalizeDimensionValues(values, "battery_mah", "z_score", false);
+
+        expect(scores[9]).toBe(1);
+        expect(scores[0]).toBeCloseTo((2 - 1 / 3) / 4, 6);
+    });
+
+    it("log scales only camera and storage", () => {
+        expect(normalizeDimensionValues([50, 100, 200], "camera_mp", "log", false)).toEqual([0, 0.5, 1]);
+        expect(normalizeDimensionValues([2000, 4000, 6000], "battery_mah", "log", false)).toEqual([0, 0.5, 1]);
+    });
+
+    it("reference scores against fixed ranges, whatever the other phones are", () => {
+        expect(normalizeDimensionValues([2500, 4500, 7000], "battery_mah", "reference", false)).toEqual([0, 0.5, 1]);
+        expect(normalizeDimensionValues([4500], "battery_mah", "reference", false)).toEqual([0.5]);
+        expect(normalizeDimensionValues([850], "price", "reference", true, "USD")).toEqual([0.5]);
+    });
+
+    it("scores identical values as 0.5", () => {
+        for (const strategy of ["min_max", "percentile", "z_score", "log"] as const) {
+            expect(normalizeDimensionValues([64, 64], "camera_mp", strategy, false)).toEqual([0.5, 0.5]);
+        }
+    });
+});
+
+describe("normalization in results", () => {
+    it("records the strategy applied in the result metadata", () => {
+        const phones = [
+            makePhone("outlier", { camera_mp: 200 }),
+            makePhone("mid", { camera_mp: 64 }),
+            makePhone("low", { camera_mp: 50 }),
+        ];
+        const constraints = UserConstraintsSchema.parse({ prioritized_dimensions: ["camera_mp"] });
+
+        expect(evaluatePhones(phones, constraints).metadata.normalization).toBe("min_max");
+        expect(
+            evaluatePhones(phones, { ...constraints, normalization: "percentile" }).metadata.normalization
+        ).toBe("percentile");
+    });
+});
@@ -0,0 +1,130 @@
+import { ComparisonDimension, Currency, NormalizationStrategy } from "./types";
+
+export const DEFAULT_NORMALIZATION: NormalizationStrategy = "min_max";
+
+/**
+ * Dimensions compared on a log scale by the "log" strategy, where each
+ * doubling matters about as much as the last (50MP → 200MP is not 4× better)
+ */
+export const LOG_SCALED_DIMENSIONS: ComparisonDimension[] = ["camera_mp", "storage_gb"];
+
+/**
+ * Z-scores beyond this many standard deviations are clamped
+ */
+const Z_SCORE_CLAMP = 2;
+
+/**
+ * Absolute ranges used by the "reference" strategy.
+ * Values outside the range are clamped, so scores never depend on which other phones qualify.
+ */
+export const REFERENCE_RANGES: Record<Exclude<ComparisonDimension, "price">, [number, number]> = {
+    battery_mah: [3000, 6000],
+    camera_mp: [12, 200],
+    screen_inches: [5.5, 7.0],
+    storage_gb: [64, 1024],
+    weight_grams: [150, 250],
+    processor_benchmark: [40000, 100000],
+    ram_gb: [4, 16],
+    refresh_rate_hz: [60, 144],
+    fast_charging_w: [15, 120],
+};
+
+export const PRICE_REFERENCE_RANGES: Record<Currency, [number, number]> = {
+    USD: [200, 1500],
+    INR: [10000, 150000],
+    GBP: [150, 1200],
+    EUR: [180, 1400],
+};
+
+/**
+ * Normalize a score to 0-1 range based on min/max across phones
+ * Higher is better for all dimensions EXCEPT:
+ * - price (lower is better)
+ * - weight_grams (lower is better)
+ */
+export function normalizeScore(
+    value: number,
+    min: number,
+    max: number,
+    lowerIsBetter: boolean = false
+): number {
+    if (min === max) return 0.5; // All values are the same
+
+    const normalized = (value - min) / (max - min);
+
+    // Invert for dimensions where lower is better
+    return lowerIsBetter ? 1 - normalized : normalized;
+}
+
+function minMax(values: number[], lowerIsBetter: boolean): number[] {
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    return values.map(v => normalizeScore(v, min, max, lowerIsBetter));
+}
+
+/**
+ * Share of the other phones this value beats, counting ties as half
+ */
+function percentileRank(values: number[], lowerIsBetter: boolean): number[] {
+    if (values.length === 1) return [0.5];
+
+    return values.map(value => {
+        const below = values.filter(v => (lowerIsBetter ? v > value : v < value)).length;
+        const ties = values.filter(v => v === value).length - 1;
+        return (below + ties / 2) / (values.length - 1);
+    });
+}
+
+function clampedZScore(values: number[], lowerIsBetter: boolean): number[] {
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const sd = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+    if (sd === 0) return values.map(() => 0.5);
+
+    return values.map(value => {
+        const z = Math.max(-Z_SCORE_CLAMP, Math.min(Z_SCORE_CLAMP, (value - mean) / sd));
+        const normalized = (z + Z_SCORE_CLAMP) / (2 * Z_SCORE_CLAMP);
+        return lowerIsBetter ? 1 - normalized : normalized;
+    });
+}
+
+function reference(
+    values: number[],
+    dimension: ComparisonDimension,
+    currency: Currency,
+    lowerIsBetter: boolean
+): number[] {
+    const [min, max] = dimension === "price" ? PRICE_REFERENCE_RANGES[currency] : REFERENCE_RANGES[dimension];
+    return values.map(value => {
+        const clamped = Math.max(min, Math.min(max, value));
+        return normalizeScore(clamped, min, max, lowerIsBetter);
+    });
+}
+
+/**
+ * Normalize one dimension's values to 0-1 (1 = best) with the given strategy.
+ * The "log" strategy only changes LOG_SCALED_DIMENSIONS; other dimensions use min-max.
+ */
+export function normalizeDimensionValues(
+    values: number[],
+    dimension: ComparisonDimension,
+    strategy: NormalizationStrategy,
+    lowerIsBetter: boolean,
+    currency: Currency = "USD"
+): number[] {
+    if (values.length === 0) return [];
+
+    switch (strategy) {
+        case "min_max":
+            return minMax(values, lowerIsBetter);
+        case "percentile":
+            return percentileRank(values, lowerIsBetter);
+        case "z_score":
+            return clampedZScore(values, lowerIsBetter);
+        case "log":
+            return LOG_SCALED_DIMENSIONS.includes(dimension)
+                ? minMax(values.map(v => Math.log2(v)), lowerIsBetter)
+                : minMax(values, lowerIsBetter);
+        case "reference":
+            return reference(values, dimension, currency, lowerIsBetter);
+    }
+}
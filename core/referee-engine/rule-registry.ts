@@ -0,0 +1,123 @@
+import { z } from "zod";
+import { Phone, RejectionReason, UserConstraints } from "./types";
+
+export interface RuleCheckResult {
+    passed: boolean;
+    reason?: RejectionReason;
+    details?: string;
+}
+
+/**
+ * Declarative elimination rule.
+ * `select` reads the constraint value the rule consumes; the rule is skipped
+ * when it returns undefined, otherwise the value is validated by `schema`
+ * before `evaluate` sees it.
+ */
+export interface EliminationRule<T> {
+    id: string;
+    /** Reason reported when `evaluate` fails without naming one */
+    reason: RejectionReason;
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+    select: (constraints: UserConstraints) => unknown;
+    evaluate: (phone: Phone, value: T, constraints: UserConstraints) => RuleCheckResult;
+}
+
+/**
+ * Rule consuming `required_features[id]`
+ */
+export type FeatureRule<T> = Omit<EliminationRule<T>, "select" | "reason"> & {
+    reason?: RejectionReason;
+};
+
+/**
+ * Rule with its value type erased so rules of any type can share the registry
+ */
+export interface RegisteredRule {
+    id: string;
+    reason: RejectionReason;
+    /** True when the rule is driven by a `required_features` key */
+    feature: boolean;
+    /** Validate the rule's constraint value, returning an error message if malformed */
+    validate: (constraints: UserConstraints) => string | undefined;
+    /** Bind the rule to constraints; undefined when the rule does not apply */
+    prepare: (constraints: UserConstraints) => ((phone: Phone) => RuleCheckResult) | undefined;
+}
+
+function formatIssues(error: z.ZodError): string {
+    return error.errors.map(e => e.message).join(", ");
+}
+
+/**
+ * Turn a typed rule definition into a registrable rule
+ */
+export function defineRule<T>(rule: EliminationRule<T>, feature = false): RegisteredRule {
+    return {
+        id: rule.id,
+        reason: rule.reason,
+        feature,
+        validate: (constraints) => {
+            const raw = rule.select(constraints);
+            if (raw === undefined) return undefined;
+
+            const parsed = rule.schema.safeParse(raw);
+            return parsed.success ? undefined : `Invalid ${rule.id}: ${formatIssues(parsed.error)}`;
+        },
+        prepare: (constraints) => {
+            const raw = rule.select(constraints);
+            if (raw === undefined) return undefined;
+
+            const value = rule.schema.parse(raw);
+            return (phone) => {
+                const result = rule.evaluate(phone, value, constraints);
+                return result.passed ? result : { ...result, reason: result.reason ?? rule.reason };
+            };
+        },
+    };
+}
+
+/**
+ * Define a rule driven by a `required_features` key (the rule id)
+ */
+export function defineFeatureRule<T>(rule: FeatureRule<T>): RegisteredRule {
+    return defineRule(
+        {
+            ...rule,
+            reason: rule.reason ?? "MISSING_REQUIRED_FEATURE",
+            select: (constraints) => constraints.required_features?.[rule.id],
+        },
+        true
+    );
+}
+
+// ============================================
+// Registry
+// ============================================
+
+const registry: RegisteredRule[] = [];
+
+/**
+ * Add a rule to the registry. Rules run in registration order;
+ * registering an existing id replaces that rule in place.
+ */
+export function registerRule(rule: RegisteredRule): void {
+    const index = registry.findIndex(r => r.id === rule.id);
+    if (index === -1) {
+        registry.push(rule);
+    } else {
+        registry[index] = rule;
+    }
+}
+
+/**
+ * All registered rules in evaluation order
+ */
+export function getRegisteredRules(): readonly RegisteredRule[] {
+    return registry;
+}
+
+/**
+ * Keys accepted in `required_features`
+ */
+export function getFeatureRuleIds(): string[] {
+    return registry.filter(r => r.feature).map(r => r.id);
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { UserConstraintsSchema } from "./types";
+import { applyAllRules, validateConstraints } from "./rules";
+import { defineFeatureRule, getFeatureRuleIds, getRegisteredRules, registerRule } from "./rule-registry";
+import { makePhone } from "./test-helpers";
+
+describe("applyAllRules", () => {
+    it("reports every rule an eliminated phone fails, in rule order", () => {
+        const constraints = UserConstraintsSchema.parse({
+            budget: 500,
+            required_features: { has_5g: true, min_storage_gb: 256 },
+            prioritized_dimensions: ["battery_mah"],
+        });
+        const phones = [
+            makePhone("fits", { battery_mah: 5000, storage_gb: 256 }, 450),
+            makePhone("far-off", { battery_mah: 5000, storage_gb: 128, has_5g: false }, 650),
+        ];
+
+        const [qualified, eliminated] = applyAllRules(phones, constraints);
+
+        expect(qualified.map(p => p.id)).toEqual(["fits"]);
+        expect(eliminated).toHaveLength(1);
+        expect(eliminated[0]?.failures.map(f => f.reason)).toEqual([
+            "EXCEEDS_BUDGET",
+            "MISSING_REQUIRED_FEATURE",
+            "MISSING_REQUIRED_FEATURE",
+        ]);
+        expect(eliminated[0]?.failures[1]?.details).toBe("far-off lacks 5G support");
+    });
+
+    it("keeps the first failure as the primary rejection reason", () => {
+        const constraints = UserConstraintsSchema.parse({
+            budget: 500,
+            required_features: { has_5g: true },
+            prioritized_dimensions: ["battery_mah"],
+        });
+        const [, [eliminated]] = applyAllRules(
+            [makePhone("far-off", { battery_mah: 5000, has_5g: false }, 650)],
+            constraints
+        );
+
+        expect(eliminated?.rejection_reason).toBe("EXCEEDS_BUDGET");
+        expect(eliminated?.rejection_details).toBe(eliminated?.failures[0]?.details);
+    });
+});
+
+describe("rule registry", () => {
+    it("runs the built-in rules in a fixed order", () => {
+        const ids = getRegisteredRules().map(rule => rule.id);
+
+        expect(ids.slice(0, 3)).toEqual(["availability", "region", "budget"]);
+        expect(ids.at(-1)).toBe("data_completeness");
+        expect(getFeatureRuleIds()).toEqual(
+            expect.arrayContaining(["has_5g", "min_storage_gb", "min_screen_inches", "min_ram_gb", "max_weight_grams"])
+        );
+    });
+
+    it("rejects unknown feature keys and malformed feature values", () => {
+        const errors = validateConstraints(
+            UserConstraintsSchema.parse({
+                required_features: { has_nfc: true, min_storage_gb: "lots" },
+                prioritized_dimensions: ["battery_mah"],
+            })
+        );
+
+        expect(errors).toEqual([
+            expect.stringMatching(/^Unknown required feature 'has_nfc'\. Known features: has_5g, /),
+            "Invalid min_storage_gb: Expected number, received string",
+        ]);
+    });
+
+    it("applies a newly registered feature rule without changes to applyAllRules", () => {
+        registerRule(defineFeatureRule({
+            id: "min_refresh_rate_hz",
+            schema: z.number().positive(),
+            evaluate: (phone, minimum) => (phone.specs.refresh_rate_hz ?? 0) >= minimum
+                ? { passed: true }
+                : { passed: false, details: `${phone.name} refreshes below ${minimum}Hz` },
+        }));
+        const constraints = UserConstraintsSchema.parse({
+            required_features: { min_refresh_rate_hz: 120 },
+            prioritized_dimensions: ["battery_mah"],
+        });
+
+        const [qualified, eliminated] = applyAllRules(
+            [
+                makePhone("smooth", { battery_mah: 5000, refresh_rate_hz: 120 }),
+                makePhone("choppy", { battery_mah: 5000, refresh_rate_hz: 60 }),
+            ],
+            constraints
+        );
+
+        expect(validateConstraints(constraints)).toEqual([]);
+        expect(qualified.map(p => p.id)).toEqual(["smooth"]);
+        expect(eliminated[0]?.failures).toEqual([
+            { reason: "MISSING_REQUIRED_FEATURE", details: "choppy refreshes below 120Hz" },
+        ]);
+    });
+});
+
+describe("dimension bounds", () => {
+    const constraints = UserConstraintsSchema.parse({
+        dimension_bounds: { weight_grams: { max: 190 }, screen_inches: { min: 6.1, max: 6.5 } },
+        prioritized_dimensions: ["battery_mah"],
+    });
+
+    it("keeps phones inside every inclusive bound", () => {
+        const [qualified] = applyAllRules(
+            [
+                makePhone("edge", { battery_mah: 5000, weight_grams: 190, screen_inches: 6.1 }),
+                makePhone("inside", { battery_mah: 5000, weight_grams: 170, screen_inches: 6.3 }),
+            ],
+            constraints
+        );
+
+        expect(qualified.map(p => p.id)).toEqual(["edge", "inside"]);
+    });
+
+    it("reports each violated bound separately with the value and the limit", () => {
+        const [, [eliminated]] = applyAllRules(
+            [makePhone("brick", { battery_mah: 5000, weight_grams: 221, screen_inches: 6.8 })],
+            constraints
+        );
+
+        expect(eliminated?.failures).toEqual([
+            { reason: "OUT_OF_RANGE", details: "brick's screen size of 6.8 inches is above the maximum of 6.5 inches" },
+            { reason: "OUT_OF_RANGE", details: "brick's weight of 221 g is above the maximum of 190 g" },
+        ]);
+    });
+
+    it("eliminates phones without data for a bounded dimension", () => {
+        const [, [eliminated]] = applyAllRules(
+            [makePhone("unknown", { battery_mah: 5000, screen_inches: 6.2 })],
+            constraints
+        );
+
+        expect(eliminated?.failures).toEqual([
+            { reason: "OUT_OF_RANGE", details: "unknown has no weight data to check against the required range" },
+        ]);
+    });
+});
@@ -1,16 +1,27 @@
+import { z } from "zod";
 import {
     Phone,
     UserConstraints,
-    RejectionReason,
     EliminatedPhone,
-    ComparisonDimension
+    RuleFailure,
+    ComparisonDimension,
+    ComparisonDimensionSchema,
+    DimensionBound,
+    DimensionBoundSchema
 } from "./types";
+import { getDimensionValue } from "./scoring";
+import { resolvePhonePrice } from "./currency";
+import {
+    defineRule,
+    getFeatureRuleIds,
+    getRegisteredRules,
+    registerRule,
+    RuleCheckResult
+} from "./rule-registry";
+import { FEATURE_RULES } from "./feature-rules";
+import { formatDimensionValue, formatPrice, getDimensionDisplayName } from "@/lib/utils";
 
-export interface RuleCheckResult {
-    passed: boolean;
-    reason?: RejectionReason;
-    details?: string;
-}
+export type { RuleCheckResult };
 
 /**
  * Check if phone is within budget constraint
@@ -23,12 +34,25 @@ export function checkBudgetConstraint(
         return { passed: true };
     }
 
-    if (phone.price_usd > constraints.budget) {
-        const excess = phone.price_usd - constraints.budget;
+    const quote = resolvePhonePrice(phone, constraints.currency, constraints.region);
+    if (quote === undefined) {
+        return {
+            passed: false,
+            reason: "INCOMPLETE_DATA",
+            details: `${phone.name} has no price to compare against the budget`,
+        };
+    }
+
+    if (quote.amount > constraints.budget) {
+        const format = (amount: number) => formatPrice(amount, constraints.currency);
+        const excess = quote.amount - constraints.budget;
+        const price = quote.converted_from
+            ? `≈${format(quote.amount)}, converted from ${formatPrice(quote.converted_from.amount, quote.converted_from.currency)}`
+            : format(quote.amount);
         return {
             passed: false,
             reason: "EXCEEDS_BUDGET",
-            details: `${phone.name} ($${phone.price_usd}) exceeds budget of $${constraints.budget} by $${excess}`,
+            details: `${phone.name} (${price}) exceeds budget of ${format(constraints.budget)} by ${format(excess)}`,
         };
     }
 
@@ -36,87 +60,109 @@ export function checkBudgetConstraint(
 }
 
 /**
- * Check if phone has all required features
+ * Check if phone has all required features (first unmet feature wins)
  */
 export function checkRequiredFeatures(
     phone: Phone,
     constraints: UserConstraints
 ): RuleCheckResult {
-    if (!constraints.required_features) {
-        return { passed: true };
-    }
-
-    for (const [feature, requiredValue] of Object.entries(constraints.required_features)) {
-        // Handle has_5g requirement
-        if (feature === "has_5g" && requiredValue === true) {
-            if (!phone.specs.has_5g) {
-                return {
-                    passed: false,
-                    reason: "MISSING_REQUIRED_FEATURE",
-                    details: `${phone.name} lacks 5G support`,
-                };
-            }
-        }
-
-        // Handle min_storage_gb requirement
-        if (feature === "min_storage_gb" && typeof requiredValue === "number") {
-            const storage = phone.specs.storage_gb;
-            if (storage === undefined || storage < requiredValue) {
-                return {
-                    passed: false,
-                    reason: "MISSING_REQUIRED_FEATURE",
-                    details: `${phone.name} has ${storage ?? "unknown"}GB storage, requires minimum ${requiredValue}GB`,
-                };
-            }
-        }
-
-        // Handle min_screen_inches requirement
-        if (feature === "min_screen_inches" && typeof requiredValue === "number") {
-            const screen = phone.specs.screen_inches;
-            if (screen === undefined || screen < requiredValue) {
-                return {
-                    passed: false,
-                    reason: "MISSING_REQUIRED_FEATURE",
-                    details: `${phone.name} has ${screen ?? "unknown"}" screen, requires minimum ${requiredValue}"`,
-                };
-            }
+    for (const rule of getRegisteredRules().filter(r => r.feature)) {
+        const result = rule.prepare(constraints)?.(phone);
+        if (result && !result.passed) {
+            return result;
         }
     }
-
     return { passed: true };
 }
 
 /**
- * Check if phone is available in required region
+ * Regions where a phone can still be bought (not discontinued)
+ */
+export function getSellingRegions(phone: Phone): string[] {
+    return Object.entries(phone.regions)
+        .filter(([, entry]) => entry.status !== "discontinued")
+        .map(([region]) => region);
+}
+
+/**
+ * Check if phone is sold in the user's region
  */
 export function checkRegionConstraint(
     phone: Phone,
     constraints: UserConstraints
 ): RuleCheckResult {
-    if (phone.region !== constraints.region) {
+    if (phone.regions[constraints.region] === undefined) {
+        const elsewhere = getSellingRegions(phone);
         return {
             passed: false,
             reason: "UNAVAILABLE_IN_REGION",
-            details: `${phone.name} is not available in ${constraints.region} (only available in ${phone.region})`,
+            details: elsewhere.length > 0
+                ? `${phone.name} is not sold in ${constraints.region}; available in ${elsewhere.join(", ")}`
+                : `${phone.name} is not sold in ${constraints.region}`,
         };
     }
     return { passed: true };
 }
 
 /**
- * Check if phone is still available (not discontinued)
+ * Check if phone is still available (not discontinued) in the user's region.
+ * Phones not sold in the region at all are left to the region rule.
  */
-export function checkAvailability(phone: Phone): RuleCheckResult {
-    if (phone.availability === "discontinued") {
+export function checkAvailability(phone: Phone, constraints: UserConstraints): RuleCheckResult {
+    const entry = phone.regions[constraints.region];
+    if (entry?.status === "discontinued") {
+        const elsewhere = getSellingRegions(phone);
         return {
             passed: false,
             reason: "DISCONTINUED",
-            details: `${phone.name} is discontinued and no longer available for purchase`,
+            details: elsewhere.length > 0
+                ? `${phone.name} is discontinued in ${constraints.region}; still available in ${elsewhere.join(", ")}`
+                : `${phone.name} is discontinued and no longer available for purchase`,
         };
     }
     return { passed: true };
 }
 
+/**
+ * Check if phone's value for a dimension lies within an inclusive min/max bound
+ */
+export function checkDimensionBound(
+    phone: Phone,
+    dimension: ComparisonDimension,
+    bound: DimensionBound,
+    constraints: UserConstraints
+): RuleCheckResult {
+    const value = getDimensionValue(phone, dimension, constraints.currency, constraints.region);
+    const name = getDimensionDisplayName(dimension).toLowerCase();
+    const format = (v: number) => formatDimensionValue(dimension, v, constraints.currency);
+
+    if (value === undefined) {
+        return {
+            passed: false,
+            reason: "OUT_OF_RANGE",
+            details: `${phone.name} has no ${name} data to check against the required range`,
+        };
+    }
+
+    if (bound.min !== undefined && value < bound.min) {
+        return {
+            passed: false,
+            reason: "OUT_OF_RANGE",
+            details: `${phone.name}'s ${name} of ${format(value)} is below the minimum of ${format(bound.min)}`,
+        };
+    }
+
+    if (bound.max !== undefined && value > bound.max) {
+        return {
+            passed: false,
+            reason: "OUT_OF_RANGE",
+            details: `${phone.name}'s ${name} of ${format(value)} is above the maximum of ${format(bound.max)}`,
+        };
+    }
+
+    return { passed: true };
+}
+
 /**
  * Check if phone has data for all prioritized dimensions
  */
@@ -127,10 +173,7 @@ export function checkDataCompleteness(
     const missingDimensions: string[] = [];
 
     for (const dimension of constraints.prioritized_dimensions) {
-        if (dimension === "price_usd") continue; // Price is always available
-
-        const specKey = dimension as keyof typeof phone.specs;
-        if (phone.specs[specKey] === undefined) {
+        if (getDimensionValue(phone, dimension, constraints.currency, constraints.region) === undefined) {
             missingDimensions.push(dimension);
         }
     }
@@ -146,8 +189,58 @@ export function checkDataCompleteness(
     return { passed: true };
 }
 
+// ============================================
+// Built-in Rule Registry
+// ============================================
+
+registerRule(defineRule({
+    id: "availability",
+    reason: "DISCONTINUED",
+    // Availability consumes no constraint and always applies
+    schema: z.null(),
+    select: () => null,
+    evaluate: (phone, _value, constraints) => checkAvailability(phone, constraints),
+}));
+
+registerRule(defineRule({
+    id: "region",
+    reason: "UNAVAILABLE_IN_REGION",
+    schema: z.string().length(2),
+    select: (constraints) => constraints.region,
+    evaluate: (phone, _region, constraints) => checkRegionConstraint(phone, constraints),
+}));
+
+registerRule(defineRule({
+    id: "budget",
+    reason: "EXCEEDS_BUDGET",
+    schema: z.number().positive(),
+    select: (constraints) => constraints.budget,
+    evaluate: (phone, _budget, constraints) => checkBudgetConstraint(phone, constraints),
+}));
+
+FEATURE_RULES.forEach(registerRule);
+
+// One bound rule per dimension so each violated range is reported separately
+for (const dimension of ComparisonDimensionSchema.options) {
+    registerRule(defineRule({
+        id: `bounds.${dimension}`,
+        reason: "OUT_OF_RANGE",
+        schema: DimensionBoundSchema,
+        select: (constraints) => constraints.dimension_bounds?.[dimension],
+        evaluate: (phone, bound, constraints) => checkDimensionBound(phone, dimension, bound, constraints),
+    }));
+}
+
+registerRule(defineRule({
+    id: "data_completeness",
+    reason: "INCOMPLETE_DATA",
+    schema: z.array(ComparisonDimensionSchema),
+    select: (constraints) => constraints.prioritized_dimensions,
+    evaluate: (phone, _dimensions, constraints) => checkDataCompleteness(phone, constraints),
+}));
+
 /**
- * Apply all rules to filter phones
+ * Apply all registered rules to filter phones
  * Returns tuple of [qualified phones, eliminated phones]
  */
 export function applyAllRules(
@@ -157,24 +250,25 @@ export function applyAllRules(
     const qualified: Phone[] = [];
     const eliminated: EliminatedPhone[] = [];
 
+    // Bind each applicable rule once, in registry order
+    const checks = getRegisteredRules()
+        .map(rule => rule.prepare(constraints))
+        .filter(check => check !== undefined);
+
     for (const phone of phones) {
-        // Check each rule in order of priority
-        const checks = [
-            checkAvailability(phone),
-            checkRegionConstraint(phone, constraints),
-            checkBudgetConstraint(phone, constraints),
-            checkRequiredFeatures(phone, constraints),
-            checkDataCompleteness(phone, constraints),
-        ];
-
-        // Find first failing check
-        const failedCheck = checks.find(c => !c.passed);
-
-        if (failedCheck) {
+        // Collect every failing check so users see how far each phone is from qualifying
+        const failures: RuleFailure[] = checks
+            .map(check => check(phone))
+            .filter(c => !c.passed)
+            .map(c => ({ reason: c.reason!, details: c.details! }));
+        const [primary] = failures;
+
+        if (primary) {
             eliminated.push({
                 phone,
-                rejection_reason: failedCheck.reason!,
-                rejection_details: failedCheck.details!,
+                rejection_reason: primary.reason,
+                rejection_details: primary.details,
+                failures,
             });
         } else {
             qualified.push(phone);
@@ -202,5 +296,35 @@ export function validateConstraints(constraints: UserConstraints): string[] {
         errors.push("Maximum 5 priority dimensions allowed");
     }
 
+    if (constraints.dimension_weights) {
+        const weighted = Object.keys(constraints.dimension_weights);
+        const unweighted = constraints.prioritized_dimensions.filter(d => !weighted.includes(d));
+        const unprioritized = weighted.filter(d => !constraints.prioritized_dimensions.includes(d as ComparisonDimension));
+
+        if (unweighted.length > 0) {
+            errors.push(`Missing weights for prioritized dimensions: ${unweighted.join(", ")}`);
+        }
+        if (unprioritized.length > 0) {
+            errors.push(`Weights given for dimensions that are not prioritized: ${unprioritized.join(", ")}`);
+        }
+        if (Object.values(constraints.dimension_weights).every(w => w === 0)) {
+            errors.push("At least one dimension weight must be greater than zero");
+        }
+    }
+
+    const knownFeatures = getFeatureRuleIds();
+    for (const feature of Object.keys(constraints.required_features ?? {})) {
+        if (!knownFeatures.includes(feature)) {
+            errors.push(`Unknown required feature '${feature}'. Known features: ${knownFeatures.join(", ")}`);
+        }
+    }
+
+    for (const rule of getRegisteredRules()) {
+        const error = rule.validate(constraints);
+        if (error) {
+            errors.push(error);
+        }
+    }
+
     return errors;
 }
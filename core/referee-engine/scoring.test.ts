@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { UserConstraintsSchema } from "./types";
+import { scoreAndRankPhones } from "./scoring";
+import { makePhone } from "./test-helpers";
+
+describe("scoreAndRankPhones tie-breaks", () => {
+    // With equal weights every phone scores 0.5 overall
+    const phones = [
+        makePhone("battery-phone", { battery_mah: 6000, camera_mp: 48 }, 500),
+        makePhone("camera-phone", { battery_mah: 4000, camera_mp: 64 }, 500),
+        makePhone("twin-b", { battery_mah: 5000, camera_mp: 56 }, 500),
+        makePhone("twin-a", { battery_mah: 5000, camera_mp: 56 }, 500),
+    ];
+    const constraints = UserConstraintsSchema.parse({
+        prioritized_dimensions: ["battery_mah", "camera_mp"],
+        weighting_scheme: "equal",
+    });
+
+    it("orders equal scores by the first priority, then shares the rank of identical phones by id", () => {
+        const ranked = scoreAndRankPhones(phones, constraints);
+
+        expect(ranked.map(p => [p.phone.id, p.overall_rank])).toEqual([
+            ["battery-phone", 1],
+            ["twin-a", 2],
+            ["twin-b", 2],
+            ["camera-phone", 4],
+        ]);
+        expect(ranked[0]?.tie_break?.decided_by).toBe("battery_mah");
+        expect(ranked[2]?.tie_break?.decided_by).toBe("shared");
+    });
+
+    it("ranks the same way whatever order the catalog lists the phones in", () => {
+        const expected = scoreAndRankPhones(phones, constraints);
+        const orders = [[...phones].reverse(), [...phones.slice(2), ...phones.slice(0, 2)]];
+
+        for (const order of orders) {
+            expect(scoreAndRankPhones(order, constraints)).toEqual(expected);
+        }
+    });
+
+    it("falls back to price when no priority separates the phones", () => {
+        const ranked = scoreAndRankPhones(
+            [makePhone("pricey", { battery_mah: 5000, camera_mp: 50 }, 600), makePhone("cheap", { battery_mah: 5000, camera_mp: 50 }, 400)],
+            constraints
+        );
+
+        expect(ranked.map(p => [p.phone.id, p.overall_rank])).toEqual([
+            ["cheap", 1],
+            ["pricey", 2],
+        ]);
+        expect(ranked[0]?.tie_break?.decided_by).toBe("price");
+    });
+});
+
+describe("scoreAndRankPhones conditional statements", () => {
+    it("calls a phone an equal alternative only to a phone in its own band", () => {
+        const ranked = scoreAndRankPhones(
+            [
+                makePhone("leader", { battery_mah: 6000, camera_mp: 50 }, 500),
+                makePhone("tied-high", { battery_mah: 5000, camera_mp: 50 }, 500),
+                makePhone("tied-low", { battery_mah: 4990, camera_mp: 50 }, 450),
+                makePhone("last", { battery_mah: 4000, camera_mp: 50 }, 500),
+            ],
+            UserConstraintsSchema.parse({ prioritized_dimensions: ["battery_mah"], tie_epsilon: 0.01 })
+        );
+
+        expect(ranked.map(p => p.band)).toEqual([1, 2, 2, 3]);
+        expect(ranked[1]?.conditional_statement).toMatch(/^tied-high is an equally strong alternative to tied-low IF/);
+        expect(ranked[2]?.conditional_statement).toMatch(/^tied-low is an equally strong alternative to tied-high IF/);
+        expect(ranked[1]?.conditional_statement).not.toContain("leader");
+    });
+
+    it("groups thousands in deltas and always cites a price saving", () => {
+        const ranked = scoreAndRankPhones(
+            [
+                makePhone("value", { battery_mah: 6226, camera_mp: 64 }, 400),
+                makePhone("rival", { battery_mah: 5000, camera_mp: 50 }, 500),
+            ],
+            UserConstraintsSchema.parse({ prioritized_dimensions: ["battery_mah", "camera_mp"] })
+        );
+
+        expect(ranked[0]?.conditional_statement).toBe(
+            "value is optimal IF you value +1,226 mAh battery and saving $100 (vs rival)"
+        );
+    });
+});
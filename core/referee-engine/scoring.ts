@@ -1,14 +1,38 @@
-import { Phone, UserConstraints, ComparisonDimension, PhoneWithScore } from "./types";
+import {
+    Phone,
+    UserConstraints,
+    ComparisonDimension,
+    PhoneWithScore,
+    Currency,
+    NormalizationStrategy,
+    WeightingScheme
+} from "./types";
+import { DEFAULT_NORMALIZATION, normalizeDimensionValues } from "./normalization";
+import { resolvePhonePrice } from "./currency";
+import { formatDimensionDelta, formatDimensionValue, formatPrice, getDimensionDisplayName } from "@/lib/utils";
+
+export { normalizeScore } from "./normalization";
+
+/**
+ * Get a phone's price in the given currency, preferring the price listed in the
+ * user's region and converting from another listed currency when needed
+ */
+export function getPhonePrice(phone: Phone, currency: Currency, region?: string): number | undefined {
+    return resolvePhonePrice(phone, currency, region)?.amount;
+}
 
 /**
  * Get the raw value of a dimension from a phone
+ * Price is read in the requested currency, from the user's region when it lists one
  */
 export function getDimensionValue(
     phone: Phone,
-    dimension: ComparisonDimension
+    dimension: ComparisonDimension,
+    currency: Currency = "USD",
+    region?: string
 ): number | undefined {
-    if (dimension === "price_usd") {
-        return phone.price_usd;
+    if (dimension === "price") {
+        return getPhonePrice(phone, currency, region);
     }
 
     const specKey = dimension as keyof typeof phone.specs;
@@ -21,37 +45,20 @@ export function getDimensionValue(
     return undefined;
 }
 
-/**
- * Normalize a score to 0-1 range based on min/max across phones
- * Higher is better for all dimensions EXCEPT:
- * - price_usd (lower is better)
- * - weight_grams (lower is better)
- */
-export function normalizeScore(
-    value: number,
-    min: number,
-    max: number,
-    lowerIsBetter: boolean = false
-): number {
-    if (min === max) return 0.5; // All values are the same
-
-    const normalized = (value - min) / (max - min);
-
-    // Invert for dimensions where lower is better
-    return lowerIsBetter ? 1 - normalized : normalized;
-}
-
 /**
  * Dimensions where lower values are better
  */
-const LOWER_IS_BETTER: ComparisonDimension[] = ["price_usd", "weight_grams"];
+export const LOWER_IS_BETTER: ComparisonDimension[] = ["price", "weight_grams"];
 
 /**
  * Calculate normalized scores for all prioritized dimensions across all phones
  */
 export function calculateDimensionScores(
     phones: Phone[],
-    prioritizedDimensions: ComparisonDimension[]
+    prioritizedDimensions: ComparisonDimension[],
+    currency: Currency = "USD",
+    normalization: NormalizationStrategy = DEFAULT_NORMALIZATION,
+    region?: string
 ): Map<string, Record<string, number>> {
     const scores = new Map<string, Record<string, number>>();
 
@@ -66,7 +73,7 @@ export function calculateDimensionScores(
         const values: { phoneId: string; value: number }[] = [];
 
         for (const phone of phones) {
-            const value = getDimensionValue(phone, dimension);
+            const value = getDimensionValue(phone, dimension, currency, region);
             if (value !== undefined) {
                 values.push({ phoneId: phone.id, value });
             }
@@ -74,45 +81,97 @@ export function calculateDimensionScores(
 
         if (values.length === 0) continue;
 
-        // Find min and max
-        const allValues = values.map(v => v.value);
-        const min = Math.min(...allValues);
-        const max = Math.max(...allValues);
-
         // Calculate normalized scores
         const lowerIsBetter = LOWER_IS_BETTER.includes(dimension);
-
-        for (const { phoneId, value } of values) {
-            const normalized = normalizeScore(value, min, max, lowerIsBetter);
+        const normalized = normalizeDimensionValues(
+            values.map(v => v.value),
+            dimension,
+            normalization,
+            lowerIsBetter,
+            currency
+        );
+
+        values.forEach(({ phoneId }, index) => {
             const phoneScores = scores.get(phoneId);
             if (phoneScores) {
-                phoneScores[dimension] = normalized;
+                phoneScores[dimension] = normalized[index] ?? 0;
             }
-        }
+        });
     }
 
     return scores;
 }
 
 /**
- * Calculate weighted overall score based on priority order
- * First priority gets highest weight, decreasing for subsequent priorities
+ * Weight per prioritized dimension
+ */
+export type PriorityWeights = Partial<Record<ComparisonDimension, number>>;
+
+export const DEFAULT_WEIGHTING_SCHEME: WeightingScheme = "exponential";
+
+/**
+ * Raw weights for `count` priorities under a named scheme, highest priority first
+ */
+export function getSchemeWeights(scheme: WeightingScheme, count: number): number[] {
+    return Array.from({ length: count }, (_, i) => {
+        switch (scheme) {
+            case "exponential":
+                return Math.pow(0.5, i);
+            case "linear":
+                return 1 - 0.2 * i;
+            case "rank_sum":
+                return count - i;
+            case "equal":
+                return 1;
+        }
+    });
+}
+
+/**
+ * Resolve the weights applied to each prioritized dimension, normalized to sum to 1.
+ * Explicit dimension_weights win over the weighting scheme.
+ */
+export function resolvePriorityWeights(constraints: UserConstraints): PriorityWeights {
+    const dimensions = constraints.prioritized_dimensions;
+    const schemeWeights = getSchemeWeights(
+        constraints.weighting_scheme ?? DEFAULT_WEIGHTING_SCHEME,
+        dimensions.length
+    );
+    const raw = dimensions.map((dimension, i) =>
+        constraints.dimension_weights
+            ? constraints.dimension_weights[dimension] ?? 0
+            : schemeWeights[i] ?? 0
+    );
+
+    const total = raw.reduce((sum, w) => sum + w, 0);
+    const weights: PriorityWeights = {};
+    dimensions.forEach((dimension, i) => {
+        weights[dimension] = total > 0 ? (raw[i] ?? 0) / total : 0;
+    });
+    return weights;
+}
+
+/**
+ * Calculate weighted overall score based on priority weights
+ * Without explicit weights, priorities decay exponentially: 1, 0.5, 0.25, ...
  */
 export function calculateWeightedScore(
     dimensionScores: Record<string, number>,
-    prioritizedDimensions: ComparisonDimension[]
+    prioritizedDimensions: ComparisonDimension[],
+    weights: PriorityWeights = resolvePriorityWeights({
+        prioritized_dimensions: prioritizedDimensions,
+        region: "US",
+        currency: "USD",
+    })
 ): number {
     let totalWeight = 0;
     let weightedSum = 0;
 
-    // Weights decrease exponentially: 1, 0.5, 0.25, 0.125, ...
-    for (let i = 0; i < prioritizedDimensions.length; i++) {
-        const dimension = prioritizedDimensions[i];
-        if (dimension === undefined) continue;
+    for (const dimension of prioritizedDimensions) {
         const score = dimensionScores[dimension];
+        const weight = weights[dimension] ?? 0;
 
         if (score !== undefined) {
-            const weight = Math.pow(0.5, i);
             weightedSum += score * weight;
             totalWeight += weight;
         }
@@ -122,14 +181,121 @@ export function calculateWeightedScore(
 }
 
 /**
- * Generate conditional statement for a phone based on its strengths
+ * Most gains and sacrifices cited in one conditional statement
+ */
+const MAX_CITED_DIFFERENCES = 2;
+
+/**
+ * The concrete trade-off of choosing `phone` over `competitor`, e.g.
+ * "you value +1,200 mAh battery over a 48 MP vs 50 MP camera and can spend $100 more".
+ * Gains and sacrifices are cited in priority order; a price saving is always cited.
+ */
+function describeTradeOff(
+    phone: Phone,
+    competitor: Phone,
+    prioritizedDimensions: ComparisonDimension[],
+    currency: Currency,
+    region?: string
+): { clause?: string; sacrifices: string[] } {
+    const gains: string[] = [];
+    const sacrifices: string[] = [];
+
+    for (const dimension of prioritizedDimensions) {
+        if (dimension === "price") continue;
+
+        const mine = getDimensionValue(phone, dimension, currency, region);
+        const theirs = getDimensionValue(competitor, dimension, currency, region);
+        if (mine === undefined || theirs === undefined || mine === theirs) continue;
+
+        const name = getDimensionDisplayName(dimension).toLowerCase();
+        const lowerIsBetter = LOWER_IS_BETTER.includes(dimension);
+        const delta = formatDimensionDelta(dimension, Math.abs(mine - theirs), currency);
+        if (lowerIsBetter ? mine < theirs : mine > theirs) {
+            gains.push(lowerIsBetter ? `${delta} less ${name}` : `+${delta} ${name}`);
+        } else {
+            sacrifices.push(
+                `a ${formatDimensionValue(dimension, mine, currency)} vs ${formatDimensionValue(dimension, theirs, currency)} ${name}`
+            );
+        }
+    }
+
+    const cited = sacrifices.slice(0, MAX_CITED_DIFFERENCES);
+    const myPrice = getPhonePrice(phone, currency, region);
+    const theirPrice = getPhonePrice(competitor, currency, region);
+    let saving: string | undefined;
+    let priceClause = "";
+    if (myPrice !== undefined && theirPrice !== undefined && myPrice !== theirPrice) {
+        const difference = formatPrice(Math.abs(myPrice - theirPrice), currency);
+        if (myPrice < theirPrice) {
+            saving = `saving ${difference}`;
+        } else {
+            priceClause = ` and can spend ${difference} more`;
+        }
+    }
+
+    const valued = saving
+        ? [...gains.slice(0, MAX_CITED_DIFFERENCES - 1), saving]
+        : gains.slice(0, MAX_CITED_DIFFERENCES);
+    if (valued.length === 0) {
+        return { sacrifices: cited };
+    }
+
+    const over = cited.length > 0 ? ` over ${cited.join(" and ")}` : "";
+    return { clause: `you value ${valued.join(" and ")}${over}${priceClause}`, sacrifices: cited };
+}
+
+/**
+ * Context for a conditional statement beyond the phone's own scores
+ */
+export interface StatementContext {
+    /**
+     * Nearest competitor: the runner-up for #1, a bandmate for phones in a tie,
+     * otherwise the phone ranked directly above
+     */
+    competitor?: Phone;
+    /** Names of phones statistically tied with this one */
+    tiedWith?: string[];
+    /** Closeness band (1 = top), defaults to the rank */
+    band?: number;
+    currency?: Currency;
+    /** User's region, whose listed prices are compared */
+    region?: string;
+}
+
+/**
+ * Generate a conditional statement for a phone from its trade-offs against its nearest competitor.
+ * Statistically tied phones are phrased as equals rather than winners.
+ * Without a competitor, the statement falls back to the phone's strongest priority.
  */
 export function generateConditionalStatement(
     phone: Phone,
     dimensionScores: Record<string, number>,
     prioritizedDimensions: ComparisonDimension[],
-    rank: number
+    rank: number,
+    context: StatementContext = {}
 ): string {
+    const { competitor, tiedWith = [], band = rank, currency = "USD", region } = context;
+    const tie = tiedWith.length > 0 ? ` (statistically tied with ${tiedWith.join(", ")})` : "";
+
+    if (competitor) {
+        const { clause, sacrifices } = describeTradeOff(phone, competitor, prioritizedDimensions, currency, region);
+
+        if (!clause) {
+            return `${phone.name} trails ${competitor.name} on your priorities${
+                sacrifices.length > 0 ? ` (${sacrifices.join(", ")})` : ""
+            }; choose it only IF ${competitor.name} is unavailable`;
+        }
+        if (tie && band === 1) {
+            return `${phone.name} is equally optimal IF ${clause}${tie}`;
+        }
+        if (tie && tiedWith.includes(competitor.name)) {
+            return `${phone.name} is an equally strong alternative to ${competitor.name} IF ${clause}${tie}`;
+        }
+        return rank === 1
+            ? `${phone.name} is optimal IF ${clause} (vs ${competitor.name})`
+            : `${phone.name} beats ${competitor.name} IF ${clause}`;
+    }
+
     // Find the phone's strongest dimension
     let strongestDimension: ComparisonDimension | null = null;
     let highestScore = -1;
@@ -142,30 +308,57 @@ export function generateConditionalStatement(
         }
     }
 
-    // Map dimension to readable name
-    const dimensionNames: Record<ComparisonDimension, string> = {
-        battery_mah: "battery life",
-        camera_mp: "camera quality",
-        screen_inches: "screen size",
-        storage_gb: "storage capacity",
-        weight_grams: "lightweight design",
-        processor_benchmark: "performance",
-        price_usd: "value for money",
-    };
-
     const strengthName = strongestDimension
-        ? dimensionNames[strongestDimension]
+        ? getDimensionDisplayName(strongestDimension).toLowerCase()
         : "balanced features";
 
-    if (rank === 1) {
-        return `${phone.name} is optimal IF ${strengthName} is your top priority`;
+    return `${phone.name} is optimal IF ${strengthName} is your top priority${tie}`;
+}
+
+/**
+ * Weighted scores closer than this are treated as equal
+ */
+export const SCORE_EPSILON = 1e-9;
+
+/**
+ * Default weighted-score difference within which phones are statistically tied
+ */
+export const DEFAULT_TIE_EPSILON = 0.01;
+
+interface ScoredPhone {
+    phone: Phone;
+    scores: Record<string, number>;
+    weighted: number;
+}
+
+/**
+ * First tie-break key separating two phones with equal weighted scores:
+ * each prioritized dimension in order, then price. Undefined when nothing separates them.
+ * Returns the key and its sign (negative when `a` should rank first).
+ */
+function findTieBreak(
+    a: ScoredPhone,
+    b: ScoredPhone,
+    prioritizedDimensions: ComparisonDimension[],
+    currency: Currency,
+    region?: string
+): { key: ComparisonDimension; order: number } | undefined {
+    for (const dimension of prioritizedDimensions) {
+        const diff = (b.scores[dimension] ?? 0) - (a.scores[dimension] ?? 0);
+        if (Math.abs(diff) > SCORE_EPSILON) return { key: dimension, order: diff };
     }
 
-    return `${phone.name} is a strong choice IF ${strengthName} matters and you want alternative options`;
+    const priceA = getPhonePrice(a.phone, currency, region) ?? Infinity;
+    const priceB = getPhonePrice(b.phone, currency, region) ?? Infinity;
+    if (priceA !== priceB) return { key: "price", order: priceA < priceB ? -1 : 1 };
+
+    return undefined;
 }
 
 /**
- * Score and rank all qualified phones
+ * Score and rank all qualified phones.
+ * Equal weighted scores are ordered by the next priority dimension, then price;
+ * phones nothing separates share a rank and are listed by id.
  */
 export function scoreAndRankPhones(
     phones: Phone[],
@@ -176,31 +369,92 @@ export function scoreAndRankPhones(
     // Calculate dimension scores for all phones
     const dimensionScores = calculateDimensionScores(
         phones,
-        constraints.prioritized_dimensions
+        constraints.prioritized_dimensions,
+        constraints.currency,
+        constraints.normalization,
+        constraints.region
     );
 
     // Calculate weighted scores and create PhoneWithScore objects
-    const phonesWithScores: { phone: Phone; scores: Record<string, number>; weighted: number }[] = [];
+    const weights = resolvePriorityWeights(constraints);
+    const phonesWithScores: ScoredPhone[] = [];
 
     for (const phone of phones) {
         const scores = dimensionScores.get(phone.id) || {};
-        const weighted = calculateWeightedScore(scores, constraints.prioritized_dimensions);
+        const weighted = calculateWeightedScore(scores, constraints.prioritized_dimensions, weights);
         phonesWithScores.push({ phone, scores, weighted });
     }
 
-    // Sort by weighted score (descending)
-    phonesWithScores.sort((a, b) => b.weighted - a.weighted);
+    // Sort by weighted score (descending), then the tie-break chain, then id
+    const dimensions = constraints.prioritized_dimensions;
+    const tied = (a: ScoredPhone, b: ScoredPhone) => Math.abs(a.weighted - b.weighted) <= SCORE_EPSILON;
+    phonesWithScores.sort((a, b) => {
+        if (!tied(a, b)) return b.weighted - a.weighted;
+        return findTieBreak(a, b, dimensions, constraints.currency, constraints.region)?.order ?? a.phone.id.localeCompare(b.phone.id);
+    });
+
+    // Group phones within tie_epsilon of their band's best score into closeness bands
+    const tieEpsilon = constraints.tie_epsilon ?? DEFAULT_TIE_EPSILON;
+    const bands: number[] = [];
+    let bandTop = phonesWithScores[0]?.weighted ?? 0;
+    phonesWithScores.forEach((item, index) => {
+        const previousBand = bands[index - 1] ?? 0;
+        if (index === 0 || bandTop - item.weighted > tieEpsilon + SCORE_EPSILON) {
+            bands.push(previousBand + 1);
+            bandTop = item.weighted;
+        } else {
+            bands.push(previousBand);
+        }
+    });
 
     // Create final PhoneWithScore objects with ranks
-    return phonesWithScores.map((item, index) => ({
-        phone: item.phone,
-        dimension_scores: item.scores,
-        overall_rank: index + 1,
-        conditional_statement: generateConditionalStatement(
-            item.phone,
-            item.scores,
-            constraints.prioritized_dimensions,
-            index + 1
-        ),
-    }));
+    const results: PhoneWithScore[] = [];
+    phonesWithScores.forEach((item, index) => {
+        const previous = phonesWithScores[index - 1];
+        const next = phonesWithScores[index + 1];
+        const tiedWith = phonesWithScores.filter(other => other !== item && tied(item, other));
+
+        // Compare against the phone above, or below for the first phone of a tie
+        const neighbour = previous && tied(item, previous) ? previous : next && tied(item, next) ? next : undefined;
+        const decidedBy = neighbour && findTieBreak(item, neighbour, dimensions, constraints.currency, constraints.region)?.key;
+        const sharesRank = previous !== undefined && tied(item, previous)
+            && findTieBreak(item, previous, dimensions, constraints.currency, constraints.region) === undefined;
+        const rank = sharesRank ? results[index - 1]!.overall_rank : index + 1;
+        const band = bands[index] ?? index + 1;
+        const bandmates = phonesWithScores.filter((other, i) => other !== item && bands[i] === band);
+        // The first phone of a tied band is compared with the bandmate below it, not the band above
+        const firstOfBand = index === 0 || bands[index - 1] !== band;
+        const competitor = index === 0 || (firstOfBand && bandmates.length > 0) ? next : previous;
+
+        results.push({
+            phone: item.phone,
+            dimension_scores: item.scores,
+            overall_rank: rank,
+            conditional_statement: generateConditionalStatement(
+                item.phone,
+                item.scores,
+                dimensions,
+                rank,
+                {
+                    competitor: competitor?.phone,
+                    tiedWith: bandmates.map(other => other.phone.name),
+                    band,
+                    currency: constraints.currency,
+                    region: constraints.region,
+                }
+            ),
+            weighted_score: item.weighted,
+            ...(previous && { margin_above: previous.weighted - item.weighted }),
+            ...(next && { margin_below: item.weighted - next.weighted }),
+            band,
+            ...(tiedWith.length > 0 && {
+                tie_break: {
+                    tied_with: tiedWith.map(other => other.phone.id),
+                    decided_by: decidedBy ?? "shared",
+                },
+            }),
+        });
+    });
+
+    return results;
 }
@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import { UserConstraints, UserConstraintsSchema } from "./types";
+import { scoreAndRankPhones } from "./scoring";
+import {
+    analyzeAddRequirement,
+    analyzeBoundRelaxation,
+    analyzeBudgetDecrease,
+    analyzeBudgetIncrease,
+    analyzeTopPickFlips,
+    generateSensitivityRules,
+} from "./sensitivity";
+import { makePhone } from "./test-helpers";
+
+describe("analyzeTopPickFlips weight solver", () => {
+    // Min-max scores (battery, camera): leader (1, 0), camera-phone (0, 1), balanced (0.5, 0.7).
+    // With battery weight t: leader = t, camera-phone = 1 - t, balanced = 0.7 - 0.2t
+    const phones = [
+        makePhone("leader", { battery_mah: 6000, camera_mp: 48 }),
+        makePhone("camera-phone", { battery_mah: 4000, camera_mp: 64 }),
+        makePhone("balanced", { battery_mah: 5000, camera_mp: 59.2 }),
+    ];
+    const constraints = UserConstraintsSchema.parse({ prioritized_dimensions: ["battery_mah", "camera_mp"] });
+    const ranked = scoreAndRankPhones(phones, constraints);
+
+    const leaderWith = (batteryWeight: number) => {
+        const weighted: UserConstraints = {
+            ...constraints,
+            dimension_weights: { battery_mah: batteryWeight, camera_mp: 1 - batteryWeight },
+        };
+        return scoreAndRankPhones(phones, weighted)[0]?.phone.id;
+    };
+
+    it("solves the exact weight at which each runner-up takes the lead", () => {
+        expect(ranked.map(p => p.phone.id)).toEqual(["leader", "balanced", "camera-phone"]);
+
+        const rules = analyzeTopPickFlips(phones, constraints, ranked);
+        const thresholds = new Map(rules.map(r => [r.adjustment_details.phone_id, r.adjustment_details]));
+
+        // balanced leads while 0.375 < t < 0.583; the nearest edge to t = 0.667 is 0.583
+        expect(thresholds.get("balanced")).toMatchObject({ dimension: "battery_mah" });
+        expect(thresholds.get("balanced")?.to).toBeCloseTo(0.7 / 1.2, 6);
+
+        // camera-phone must also beat balanced, so t < 0.375 rather than t < 0.5
+        expect(thresholds.get("camera-phone")).toMatchObject({ dimension: "battery_mah" });
+        expect(thresholds.get("camera-phone")?.to).toBeCloseTo(0.375, 6);
+    });
+
+    it("reports thresholds that really flip the top pick", () => {
+        expect(leaderWith(0.7 / 1.2 + 0.01)).toBe("leader");
+        expect(leaderWith(0.7 / 1.2 - 0.01)).toBe("balanced");
+        expect(leaderWith(0.375 + 0.01)).toBe("balanced");
+        expect(leaderWith(0.375 - 0.01)).toBe("camera-phone");
+    });
+
+    it("does not suggest reordering priorities when custom weights are set", () => {
+        const weighted: UserConstraints = { ...constraints, dimension_weights: { battery_mah: 2, camera_mp: 1 } };
+        const rules = analyzeTopPickFlips(phones, weighted, scoreAndRankPhones(phones, weighted));
+
+        expect(rules.length).toBeGreaterThan(0);
+        expect(rules.every(r => r.adjustment_type !== "priority_reorder")).toBe(true);
+    });
+});
+
+describe("analyzeBudgetIncrease", () => {
+    it("reports only the first budget at which more phones qualify", () => {
+        const phones = [
+            makePhone("cheap", { battery_mah: 5000, camera_mp: 50 }, 400),
+            makePhone("mid", { battery_mah: 5000, camera_mp: 50 }, 450),
+            makePhone("step-up", { battery_mah: 5000, camera_mp: 50 }, 799),
+            makePhone("premium", { battery_mah: 5000, camera_mp: 50 }, 899),
+        ];
+        const constraints = UserConstraintsSchema.parse({ budget: 500, prioritized_dimensions: ["battery_mah"] });
+        const ranked = scoreAndRankPhones(phones.slice(0, 2), constraints);
+
+        const rules = analyzeBudgetIncrease(phones, constraints, ranked);
+        expect(rules).toHaveLength(1);
+        expect(rules[0]?.adjustment_details).toEqual({ from: 500, to: 799 });
+        expect(rules[0]?.conditional_statement).toBe("IF budget increases to $799, THEN step-up meets all constraints");
+    });
+});
+
+describe("analyzeBoundRelaxation", () => {
+    it("finds the nearest relaxed bound that lets another phone qualify", () => {
+        const phones = [
+            makePhone("light", { battery_mah: 4500, weight_grams: 180 }),
+            makePhone("nearly", { battery_mah: 5000, weight_grams: 200 }),
+            makePhone("heavy", { battery_mah: 6000, weight_grams: 240 }),
+        ];
+        const constraints = UserConstraintsSchema.parse({
+            dimension_bounds: { weight_grams: { max: 190 } },
+            prioritized_dimensions: ["battery_mah"],
+        });
+
+        const rules = analyzeBoundRelaxation(phones, constraints, scoreAndRankPhones(phones.slice(0, 1), constraints));
+
+        expect(rules).toHaveLength(1);
+        expect(rules[0]?.adjustment_details).toEqual({ dimension: "weight_grams", bound: "max", from: 190, to: 200 });
+        expect(rules[0]?.conditional_statement).toBe("IF you accept weight up to 200 g, THEN nearly meets all constraints");
+    });
+});
+
+describe("analyzeBudgetDecrease", () => {
+    const phones = [
+        makePhone("premium", { battery_mah: 6000 }, 700),
+        makePhone("mid", { battery_mah: 5000 }, 500),
+        makePhone("entry", { battery_mah: 4000 }, 300),
+    ];
+    const constraints = UserConstraintsSchema.parse({ budget: 800, prioritized_dimensions: ["battery_mah"] });
+    const ranked = scoreAndRankPhones(phones, constraints);
+
+    it("walks the budget down through each price, naming who takes over", () => {
+        const rules = analyzeBudgetDecrease(phones, constraints, ranked);
+
+        expect(rules.map(r => r.adjustment_details)).toEqual([
+            { from: 800, to: 500, threshold: 700, removed_ids: ["premium"], phone_id: "mid" },
+            { from: 800, to: 300, threshold: 500, removed_ids: ["mid"], phone_id: "entry" },
+            { from: 800, threshold: 300, removed_ids: ["entry"] },
+        ]);
+        expect(rules.map(r => r.conditional_statement)).toEqual([
+            "IF budget drops below $700, THEN premium (current top pick) drops out and mid takes #1 from premium",
+            "IF budget drops below $500, THEN mid drops out and entry takes #1 from mid",
+            "IF budget drops below $300, THEN entry drops out and no phone qualifies",
+        ]);
+    });
+
+    it("reports nothing without a budget", () => {
+        const unbounded = UserConstraintsSchema.parse({ prioritized_dimensions: ["battery_mah"] });
+        expect(analyzeBudgetDecrease(phones, unbounded, scoreAndRankPhones(phones, unbounded))).toEqual([]);
+    });
+
+    it("does not repeat timeline steps among the top-pick flips", () => {
+        const cuts = generateSensitivityRules(phones, constraints, ranked)
+            .filter(r => r.adjustment_type === "budget_decrease")
+            .map(r => `${r.adjustment_details.to}:${r.adjustment_details.phone_id}`);
+
+        expect(new Set(cuts).size).toBe(cuts.length);
+    });
+});
+
+describe("analyzeAddRequirement", () => {
+    const shared = { screen_inches: 6.7, weight_grams: 190 };
+    const phones = [
+        makePhone("leader", { ...shared, battery_mah: 6000, storage_gb: 128, has_5g: false }),
+        makePhone("alt", { ...shared, battery_mah: 5000, storage_gb: 256 }),
+        makePhone("third", { ...shared, battery_mah: 4000, storage_gb: 128 }),
+    ];
+
+    it("reports the phones each unset requirement eliminates and the new order", () => {
+        const constraints = UserConstraintsSchema.parse({ prioritized_dimensions: ["battery_mah"] });
+        const rules = analyzeAddRequirement(phones, constraints, scoreAndRankPhones(phones, constraints));
+
+        expect(rules.map(r => r.adjustment_details)).toEqual([
+            { feature: "has_5g", value: true, removed_ids: ["leader"], phone_id: "alt" },
+            { feature: "min_storage_gb", value: 256, removed_ids: ["leader", "third"], phone_id: "alt" },
+        ]);
+        expect(rules[0]?.impact).toBe("1 phone eliminated; alt moves from #2 to #1; third moves from #3 to #2");
+        expect(rules[0]?.conditional_statement).toBe("IF you require 5G, THEN leader drops out and alt takes #1 from leader");
+    });
+
+    it("skips requirements the user already set", () => {
+        const constraints = UserConstraintsSchema.parse({
+            required_features: { has_5g: true },
+            prioritized_dimensions: ["battery_mah"],
+        });
+        const rules = analyzeAddRequirement(phones, constraints, scoreAndRankPhones(phones.slice(1), constraints));
+
+        expect(rules.map(r => r.adjustment_details.feature)).toEqual(["min_storage_gb"]);
+    });
+});
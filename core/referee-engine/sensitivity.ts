@@ -2,120 +2,210 @@ import {
     Phone,
     UserConstraints,
     SensitivityRule,
-    PhoneWithScore
+    PhoneWithScore,
+    ComparisonDimension,
+    DimensionBound
 } from "./types";
 import { applyAllRules } from "./rules";
-import { scoreAndRankPhones } from "./scoring";
+import {
+    calculateWeightedScore,
+    getDimensionValue,
+    getPhonePrice,
+    resolvePriorityWeights,
+    scoreAndRankPhones
+} from "./scoring";
+import { formatDimensionValue, formatPrice, getDimensionDisplayName } from "@/lib/utils";
+
+/**
+ * Requirements users commonly consider adding, tested by add-requirement analysis
+ */
+const PLAUSIBLE_REQUIREMENTS: { feature: string; value: boolean | number; label: string }[] = [
+    { feature: "has_5g", value: true, label: "5G" },
+    { feature: "min_storage_gb", value: 256, label: "at least 256 GB of storage" },
+    { feature: "min_screen_inches", value: 6.5, label: "a screen of at least 6.5 inches" },
+    { feature: "max_weight_grams", value: 200, label: "a weight of at most 200 g" },
+];
 
 /**
- * Budget adjustment steps for sensitivity analysis
+ * Smallest budget above the current one at which another phone qualifies.
+ * Only the prices of phones meeting every other constraint change what qualifies,
+ * so the cheapest of those above the budget is the threshold.
  */
-const BUDGET_STEPS = [50, 100, 150, 200];
+function findNextBudget(allPhones: Phone[], constraints: UserConstraints): number | undefined {
+    const budget = constraints.budget;
+    if (budget === undefined) return undefined;
+
+    const [withoutBudget] = applyAllRules(allPhones, { ...constraints, budget: undefined });
+    const prices = withoutBudget
+        .map(p => getPhonePrice(p, constraints.currency, constraints.region))
+        .filter((price): price is number => price !== undefined && price > budget);
+    return prices.length > 0 ? Math.min(...prices) : undefined;
+}
 
 /**
- * Analyze what happens if budget increases
+ * Analyze what happens if budget increases: the first threshold at which more phones qualify
  */
 export function analyzeBudgetIncrease(
     allPhones: Phone[],
     constraints: UserConstraints,
     currentQualified: PhoneWithScore[]
 ): SensitivityRule[] {
-    const rules: SensitivityRule[] = [];
-
-    if (constraints.budget === undefined) {
-        return rules;
+    const newBudget = findNextBudget(allPhones, constraints);
+    if (constraints.budget === undefined || newBudget === undefined) {
+        return [];
     }
 
     const currentIds = new Set(currentQualified.map(p => p.phone.id));
+    const [qualified] = applyAllRules(allPhones, { ...constraints, budget: newBudget });
+    const newPhones = qualified.filter(p => !currentIds.has(p.id));
+    if (newPhones.length === 0) {
+        return [];
+    }
 
-    for (const step of BUDGET_STEPS) {
-        const newBudget = constraints.budget + step;
-        const newConstraints: UserConstraints = {
-            ...constraints,
-            budget: newBudget,
-        };
+    const phoneNames = newPhones.map(p => p.name).join(", ");
+    return [{
+        adjustment_type: "budget_increase",
+        adjustment_details: { from: constraints.budget, to: newBudget },
+        impact: `${newPhones.length} additional phone${newPhones.length > 1 ? 's' : ''} become${newPhones.length === 1 ? 's' : ''} viable: ${phoneNames}`,
+        conditional_statement: `IF budget increases to ${formatPrice(newBudget, constraints.currency)}, THEN ${phoneNames} meet${newPhones.length === 1 ? 's' : ''} all constraints`,
+    }];
+}
 
-        const [qualified] = applyAllRules(allPhones, newConstraints);
-        const newPhones = qualified.filter(p => !currentIds.has(p.id));
+/**
+ * Describe who ranks #1 after a change, relative to the previous leader
+ */
+function describeNewLeader(newTop: Phone, previous: Phone): string {
+    return newTop.id === previous.id
+        ? `${newTop.name} stays #1`
+        : `${newTop.name} takes #1 from ${previous.name}`;
+}
+
+/**
+ * Budget timeline: walk the budget down through the qualified phones' prices.
+ * Each step reports which phones fall out below a price and which phone ranks #1
+ * at the highest budget still under it, ending when nothing qualifies.
+ */
+export function analyzeBudgetDecrease(
+    allPhones: Phone[],
+    constraints: UserConstraints,
+    currentRanked: PhoneWithScore[]
+): SensitivityRule[] {
+    const rules: SensitivityRule[] = [];
+    const budget = constraints.budget;
+    const [top] = currentRanked;
+    if (budget === undefined || !top) {
+        return rules;
+    }
 
-        if (newPhones.length > 0) {
-            const phoneNames = newPhones.map(p => p.name).join(", ");
+    const priceOf = (phone: Phone) => getPhonePrice(phone, constraints.currency, constraints.region) ?? 0;
+    const prices = [...new Set(currentRanked.map(p => priceOf(p.phone)))].sort((a, b) => b - a);
+    const format = (amount: number) => formatPrice(amount, constraints.currency);
+
+    let leader = top.phone;
+    for (const [i, threshold] of prices.entries()) {
+        const droppedOut = currentRanked.filter(p => priceOf(p.phone) === threshold).map(p => p.phone);
+        const dropped = droppedOut
+            .map(p => (p.id === top.phone.id ? `${p.name} (current top pick)` : p.name))
+            .join(", ");
+        const verb = droppedOut.length === 1 ? "drops" : "drop";
+        const newBudget = prices[i + 1];
+
+        if (newBudget === undefined) {
             rules.push({
-                adjustment_type: "budget_increase",
-                adjustment_details: { from: constraints.budget, to: newBudget },
-                impact: `${newPhones.length} additional phone${newPhones.length > 1 ? 's' : ''} become${newPhones.length === 1 ? 's' : ''} viable: ${phoneNames}`,
-                conditional_statement: `IF budget increases to $${newBudget}, THEN ${phoneNames} meet${newPhones.length === 1 ? 's' : ''} all constraints`,
+                adjustment_type: "budget_decrease",
+                adjustment_details: { from: budget, threshold, removed_ids: droppedOut.map(p => p.id) },
+                impact: "No phones qualify",
+                conditional_statement: `IF budget drops below ${format(threshold)}, THEN ${dropped} ${verb} out and no phone qualifies`,
             });
-
-            // Only show the first meaningful budget step
-            if (rules.length >= 2) break;
+            break;
         }
+
+        const [qualified] = applyAllRules(allPhones, { ...constraints, budget: newBudget });
+        const [newTop] = scoreAndRankPhones(qualified, { ...constraints, budget: newBudget });
+        if (!newTop) break;
+
+        const outcome = describeNewLeader(newTop.phone, leader);
+        rules.push({
+            adjustment_type: "budget_decrease",
+            adjustment_details: {
+                from: budget,
+                to: newBudget,
+                threshold,
+                removed_ids: droppedOut.map(p => p.id),
+                phone_id: newTop.phone.id,
+            },
+            impact: `${qualified.length} phone${qualified.length === 1 ? "" : "s"} still qualify at ${format(newBudget)}; ${newTop.phone.name} ranks #1`,
+            conditional_statement: `IF budget drops below ${format(threshold)}, THEN ${dropped} ${verb} out and ${outcome}`,
+        });
+        leader = newTop.phone;
     }
 
     return rules;
 }
 
 /**
- * Analyze what happens if priority order changes
+ * Analyze adding each plausible requirement the user hasn't set:
+ * which qualified phones it eliminates and how the remaining ranking shifts.
+ * Requirements that eliminate nothing are not reported.
  */
-export function analyzePriorityReorder(
-    phones: Phone[],
+export function analyzeAddRequirement(
+    allPhones: Phone[],
     constraints: UserConstraints,
     currentRanked: PhoneWithScore[]
 ): SensitivityRule[] {
     const rules: SensitivityRule[] = [];
-
-    if (constraints.prioritized_dimensions.length < 2) {
+    const [top] = currentRanked;
+    if (!top) {
         return rules;
     }
 
-    // Only analyze swapping the top 2 priorities
-    const [first, second, ...rest] = constraints.prioritized_dimensions;
-    if (first === undefined || second === undefined) {
-        return rules;
-    }
-    const swappedDimensions = [second, first, ...rest] as typeof constraints.prioritized_dimensions;
-
-    const swappedConstraints: UserConstraints = {
-        ...constraints,
-        prioritized_dimensions: swappedDimensions,
-    };
+    for (const { feature, value, label } of PLAUSIBLE_REQUIREMENTS) {
+        if (constraints.required_features?.[feature] !== undefined) continue;
 
-    // Get qualified phones' data
-    const qualifiedPhones = currentRanked.map(p => p.phone);
-    const newRanked = scoreAndRankPhones(qualifiedPhones, swappedConstraints);
-
-    // Find phones that moved up or down
-    const currentRankMap = new Map(currentRanked.map(p => [p.phone.id, p.overall_rank]));
-    const changes: string[] = [];
+        const newConstraints: UserConstraints = {
+            ...constraints,
+            required_features: { ...constraints.required_features, [feature]: value },
+        };
+        const [qualified] = applyAllRules(allPhones, newConstraints);
+        const remaining = new Set(qualified.map(p => p.id));
+        const eliminated = currentRanked.filter(p => !remaining.has(p.phone.id)).map(p => p.phone);
+        if (eliminated.length === 0) continue;
+
+        const names = eliminated.length > 3
+            ? `${eliminated.slice(0, 3).map(p => p.name).join(", ")} and ${eliminated.length - 3} more`
+            : eliminated.map(p => p.name).join(", ");
+        const verb = eliminated.length === 1 ? "drops" : "drop";
+        const newRanked = scoreAndRankPhones(qualified, newConstraints);
+        const [newTop] = newRanked;
+        const details = {
+            feature,
+            value,
+            removed_ids: eliminated.map(p => p.id),
+            ...(newTop && { phone_id: newTop.phone.id }),
+        };
 
-    for (const phone of newRanked) {
-        const oldRank = currentRankMap.get(phone.phone.id);
-        if (oldRank && oldRank !== phone.overall_rank) {
-            const direction = phone.overall_rank < oldRank ? "moves up to" : "moves down to";
-            changes.push(`${phone.phone.name} ${direction} rank ${phone.overall_rank}`);
+        if (!newTop) {
+            rules.push({
+                adjustment_type: "add_requirement",
+                adjustment_details: details,
+                impact: "No phones qualify",
+                conditional_statement: `IF you require ${label}, THEN every qualifying phone drops out`,
+            });
+            continue;
         }
-    }
-
-    if (changes.length > 0) {
-        const dimensionNames: Record<string, string> = {
-            battery_mah: "battery life",
-            camera_mp: "camera quality",
-            screen_inches: "screen size",
-            storage_gb: "storage",
-            weight_grams: "weight",
-            processor_benchmark: "performance",
-            price_usd: "price",
-        };
 
-        const firstDim = first ? (dimensionNames[first] || first) : 'first priority';
-        const secondDim = second ? (dimensionNames[second] || second) : 'second priority';
+        const oldRanks = new Map(currentRanked.map(p => [p.phone.id, p.overall_rank]));
+        const shifts = newRanked
+            .filter(p => oldRanks.get(p.phone.id) !== p.overall_rank)
+            .map(p => `${p.phone.name} moves from #${oldRanks.get(p.phone.id)} to #${p.overall_rank}`);
 
         rules.push({
-            adjustment_type: "priority_reorder",
-            adjustment_details: { from: [first, second], to: [second, first] },
-            impact: changes.slice(0, 3).join("; "),
-            conditional_statement: `IF ${secondDim} becomes top priority over ${firstDim}, THEN ${changes[0]}`,
+            adjustment_type: "add_requirement",
+            adjustment_details: details,
+            impact: `${eliminated.length} phone${eliminated.length === 1 ? "" : "s"} eliminated; ${
+                shifts.length > 0 ? shifts.slice(0, 3).join("; ") : "remaining order unchanged"
+            }`,
+            conditional_statement: `IF you require ${label}, THEN ${names} ${verb} out and ${describeNewLeader(newTop.phone, top.phone)}`,
         });
     }
 
@@ -131,26 +221,18 @@ export function analyzeConstraintRelaxation(
 ): SensitivityRule[] {
     const rules: SensitivityRule[] = [];
 
-    // Try relaxing budget
-    if (constraints.budget !== undefined) {
-        for (const step of BUDGET_STEPS) {
-            const newBudget = constraints.budget + step;
-            const relaxedConstraints: UserConstraints = {
-                ...constraints,
-                budget: newBudget,
-            };
-
-            const [qualified] = applyAllRules(allPhones, relaxedConstraints);
+    // Try relaxing budget to the cheapest phone that meets every other constraint
+    const newBudget = findNextBudget(allPhones, constraints);
+    if (constraints.budget !== undefined && newBudget !== undefined) {
+        const [qualified] = applyAllRules(allPhones, { ...constraints, budget: newBudget });
 
-            if (qualified.length > 0) {
-                rules.push({
-                    adjustment_type: "budget_increase",
-                    adjustment_details: { from: constraints.budget, to: newBudget },
-                    impact: `${qualified.length} phone${qualified.length > 1 ? 's' : ''} would qualify`,
-                    conditional_statement: `IF budget increases to $${newBudget}, THEN ${qualified.length} option${qualified.length > 1 ? 's' : ''} become${qualified.length === 1 ? 's' : ''} available`,
-                });
-                break;
-            }
+        if (qualified.length > 0) {
+            rules.push({
+                adjustment_type: "budget_increase",
+                adjustment_details: { from: constraints.budget, to: newBudget },
+                impact: `${qualified.length} phone${qualified.length > 1 ? 's' : ''} would qualify`,
+                conditional_statement: `IF budget increases to ${formatPrice(newBudget, constraints.currency)}, THEN ${qualified.length} option${qualified.length > 1 ? 's' : ''} become${qualified.length === 1 ? 's' : ''} available`,
+            });
         }
     }
 
@@ -176,6 +258,370 @@ export function analyzeConstraintRelaxation(
     return rules;
 }
 
+/**
+ * Analyze what happens if a min/max dimension bound is relaxed.
+ * For each bound, finds the smallest relaxation that makes another phone viable.
+ */
+export function analyzeBoundRelaxation(
+    allPhones: Phone[],
+    constraints: UserConstraints,
+    currentQualified: PhoneWithScore[]
+): SensitivityRule[] {
+    const rules: SensitivityRule[] = [];
+    const currentIds = new Set(currentQualified.map(p => p.phone.id));
+    const bounds = Object.entries(constraints.dimension_bounds ?? {}) as [ComparisonDimension, DimensionBound][];
+
+    for (const [dimension, bound] of bounds) {
+        for (const side of ["min", "max"] as const) {
+            const limit = bound[side];
+            if (limit === undefined) continue;
+
+            // Values just outside the bound, nearest first
+            const candidates = [...new Set(
+                allPhones
+                    .filter(p => !currentIds.has(p.id))
+                    .map(p => getDimensionValue(p, dimension, constraints.currency, constraints.region))
+                    .filter((v): v is number => v !== undefined && (side === "max" ? v > limit : v < limit))
+            )].sort((a, b) => (side === "max" ? a - b : b - a));
+
+            for (const relaxed of candidates) {
+                const relaxedConstraints: UserConstraints = {
+                    ...constraints,
+                    dimension_bounds: {
+                        ...constraints.dimension_bounds,
+                        [dimension]: { ...bound, [side]: relaxed },
+                    },
+                };
+
+                const [qualified] = applyAllRules(allPhones, relaxedConstraints);
+                const newPhones = qualified.filter(p => !currentIds.has(p.id));
+                if (newPhones.length === 0) continue;
+
+                const phoneNames = newPhones.map(p => p.name).join(", ");
+                const name = getDimensionDisplayName(dimension).toLowerCase();
+                const value = formatDimensionValue(dimension, relaxed, constraints.currency);
+                rules.push({
+                    adjustment_type: "relax_bound",
+                    adjustment_details: { dimension, bound: side, from: limit, to: relaxed },
+                    impact: `${newPhones.length} additional phone${newPhones.length > 1 ? 's' : ''} become${newPhones.length === 1 ? 's' : ''} viable: ${phoneNames}`,
+                    conditional_statement: `IF you accept ${name} ${side === "max" ? "up to" : "down to"} ${value}, THEN ${phoneNames} meet${newPhones.length === 1 ? 's' : ''} all constraints`,
+                });
+                break;
+            }
+        }
+    }
+
+    return rules;
+}
+
+// ============================================
+// Top-Pick Flip Search
+// ============================================
+
+/**
+ * Scores closer than this are treated as tied, so a flip must be a strict lead
+ */
+const LEAD_EPSILON = 1e-9;
+
+/**
+ * A single change that makes a runner-up rank #1.
+ * `size` is the fraction of the original setting the change alters, so changes
+ * of different types can be compared: budget delta / budget, the shift in a
+ * normalized weight, positions moved / priority count, and 1 for dropping a requirement.
+ */
+interface FlipCandidate {
+    rule: SensitivityRule;
+    size: number;
+}
+
+/**
+ * Id of the phone leading a ranking outright, undefined when empty or tied at the top
+ */
+function getOutrightLeader(
+    scored: { id: string; score: number }[]
+): string | undefined {
+    const sorted = [...scored].sort((a, b) => b.score - a.score);
+    const [first, second] = sorted;
+    if (!first) return undefined;
+    if (second && first.score - second.score <= LEAD_EPSILON) return undefined;
+    return first.id;
+}
+
+/**
+ * Re-run elimination and scoring under new constraints, returning the outright leader
+ */
+function findLeader(allPhones: Phone[], constraints: UserConstraints): string | undefined {
+    const [qualified] = applyAllRules(allPhones, constraints);
+    const ranked = scoreAndRankPhones(qualified, constraints);
+    const weights = resolvePriorityWeights(constraints);
+    return getOutrightLeader(ranked.map(p => ({
+        id: p.phone.id,
+        score: calculateWeightedScore(p.dimension_scores, constraints.prioritized_dimensions, weights),
+    })));
+}
+
+function describeFlip(runnerUp: PhoneWithScore, leader: PhoneWithScore): { impact: string; outcome: string } {
+    return {
+        impact: `${runnerUp.phone.name} moves from #${runnerUp.overall_rank} to #1`,
+        outcome: `${runnerUp.phone.name} overtakes ${leader.phone.name}`,
+    };
+}
+
+/**
+ * Smallest budget change (up or down) after which the runner-up leads.
+ * Only budgets equal to some otherwise-qualifying phone's price change which phones qualify, so those are the candidates.
+ */
+function findBudgetFlip(
+    runnerUp: PhoneWithScore,
+    leader: PhoneWithScore,
+    constraints: UserConstraints,
+    budgetLeaders: Map<number, string | undefined>
+): FlipCandidate | undefined {
+    const budget = constraints.budget;
+    if (budget === undefined) return undefined;
+
+    const candidates = [...budgetLeaders.keys()].sort((a, b) => Math.abs(a - budget) - Math.abs(b - budget));
+    const newBudget = candidates.find(b => budgetLeaders.get(b) === runnerUp.phone.id);
+    if (newBudget === undefined) return undefined;
+
+    const { impact, outcome } = describeFlip(runnerUp, leader);
+    const decrease = newBudget < budget;
+    const leaderPrice = getPhonePrice(leader.phone, constraints.currency, constraints.region);
+    const result = leaderPrice !== undefined && leaderPrice > newBudget
+        ? `${runnerUp.phone.name} takes #1 as ${leader.phone.name} no longer fits`
+        : outcome;
+    return {
+        rule: {
+            adjustment_type: decrease ? "budget_decrease" : "budget_increase",
+            adjustment_details: { from: budget, to: newBudget, phone_id: runnerUp.phone.id },
+            impact,
+            conditional_statement: `IF budget ${decrease ? "drops" : "rises"} to ${formatPrice(newBudget, constraints.currency)}, THEN ${result}`,
+        },
+        size: Math.abs(newBudget - budget) / budget,
+    };
+}
+
+/**
+ * Smallest shift in one priority's normalized weight after which the runner-up leads.
+ * Other weights keep their proportions, so every phone's score is linear in the shifted
+ * weight and the runner-up leads on an interval that can be solved for exactly.
+ */
+function findWeightFlip(
+    runnerUp: PhoneWithScore,
+    leader: PhoneWithScore,
+    ranked: PhoneWithScore[],
+    constraints: UserConstraints
+): FlipCandidate | undefined {
+    const dimensions = constraints.prioritized_dimensions;
+    if (dimensions.length < 2) return undefined;
+
+    const weights = resolvePriorityWeights(constraints);
+    let best: FlipCandidate | undefined;
+
+    for (const dimension of dimensions) {
+        const current = weights[dimension] ?? 0;
+        if (current >= 1) continue;
+
+        // score(t) = other + t * (own - other), where t is this dimension's weight
+        const line = (p: PhoneWithScore) => {
+            const own = p.dimension_scores[dimension] ?? 0;
+            const total = calculateWeightedScore(p.dimension_scores, dimensions, weights);
+            const other = (total - current * own) / (1 - current);
+            return { other, slope: own - other };
+        };
+
+        const target = line(runnerUp);
+        let lo = 0;
+        let hi = 1;
+        for (const rival of ranked) {
+            if (rival.phone.id === runnerUp.phone.id) continue;
+            const { other, slope } = line(rival);
+            const a = target.other - other;
+            const b = target.slope - slope;
+            if (Math.abs(b) < LEAD_EPSILON) {
+                if (a <= LEAD_EPSILON) hi = -1;
+            } else if (b > 0) {
+                lo = Math.max(lo, -a / b);
+            } else {
+                hi = Math.min(hi, -a / b);
+            }
+        }
+        if (hi - lo <= LEAD_EPSILON) continue;
+
+        const rises = current <= lo;
+        const threshold = rises ? lo : hi;
+        const size = Math.abs(threshold - current);
+        if (best && best.size <= size) continue;
+
+        const { impact, outcome } = describeFlip(runnerUp, leader);
+        const name = getDimensionDisplayName(dimension).toLowerCase();
+        best = {
+            rule: {
+                adjustment_type: "weight_change",
+                adjustment_details: { dimension, from: current, to: threshold, phone_id: runnerUp.phone.id },
+                impact,
+                conditional_statement: `IF ${name} weight ${rises ? "rises above" : "falls below"} ${threshold.toFixed(2)} (now ${current.toFixed(2)}), THEN ${outcome}`,
+            },
+            size,
+        };
+    }
+
+    return best;
+}
+
+/**
+ * Smallest move of one priority to another position after which the runner-up leads.
+ * Weights stay with their positions, as with a weighting scheme. Custom weights belong
+ * to their dimensions, so reordering cannot change any score and there is no flip.
+ */
+function findReorderFlip(
+    runnerUp: PhoneWithScore,
+    leader: PhoneWithScore,
+    ranked: PhoneWithScore[],
+    constraints: UserConstraints
+): FlipCandidate | undefined {
+    const dimensions = constraints.prioritized_dimensions;
+    const count = dimensions.length;
+    if (count < 2 || constraints.dimension_weights) return undefined;
+
+    const weights = resolvePriorityWeights(constraints);
+    const positionWeights = dimensions.map(d => weights[d] ?? 0);
+
+    for (let distance = 1; distance < count; distance++) {
+        for (let from = 0; from < count; from++) {
+            for (const to of [from - distance, from + distance]) {
+                if (to < 0 || to >= count) continue;
+
+                const reordered = [...dimensions];
+                const [moved] = reordered.splice(from, 1);
+                if (moved === undefined) continue;
+                reordered.splice(to, 0, moved);
+
+                const scored = ranked.map(p => ({
+                    id: p.phone.id,
+                    score: reordered.reduce((sum, d, i) => sum + (positionWeights[i] ?? 0) * (p.dimension_scores[d] ?? 0), 0),
+                }));
+                if (getOutrightLeader(scored) !== runnerUp.phone.id) continue;
+
+                const { impact, outcome } = describeFlip(runnerUp, leader);
+                const name = getDimensionDisplayName(moved).toLowerCase();
+                const pivot = getDimensionDisplayName(dimensions[to] ?? moved).toLowerCase();
+                return {
+                    rule: {
+                        adjustment_type: "priority_reorder",
+                        adjustment_details: { from: dimensions, to: reordered, phone_id: runnerUp.phone.id },
+                        impact,
+                        conditional_statement: `IF ${name} moves ${to < from ? "above" : "below"} ${pivot} in your priorities, THEN ${outcome}`,
+                    },
+                    size: distance / count,
+                };
+            }
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * A requirement that can be dropped: a required feature or a dimension range
+ */
+interface Requirement {
+    label: string;
+    details: Record<string, unknown>;
+    constraints: UserConstraints;
+}
+
+function listRequirements(constraints: UserConstraints): Requirement[] {
+    const requirements: Requirement[] = [];
+
+    for (const feature of Object.keys(constraints.required_features ?? {})) {
+        const { [feature]: _dropped, ...rest } = constraints.required_features ?? {};
+        requirements.push({
+            label: feature === "has_5g" ? "5G" : feature.replace(/_/g, " "),
+            details: { feature },
+            constraints: { ...constraints, required_features: rest },
+        });
+    }
+
+    for (const dimension of Object.keys(constraints.dimension_bounds ?? {}) as ComparisonDimension[]) {
+        const { [dimension]: _dropped, ...rest } = constraints.dimension_bounds ?? {};
+        requirements.push({
+            label: `${getDimensionDisplayName(dimension).toLowerCase()} range`,
+            details: { dimension },
+            constraints: { ...constraints, dimension_bounds: rest },
+        });
+    }
+
+    return requirements;
+}
+
+/**
+ * Search, for each runner-up, the smallest single change that makes it rank #1:
+ * a budget change, a weight shift, a priority move, or dropping a requirement.
+ * Runners-up no single change can promote get no rule.
+ */
+export function analyzeTopPickFlips(
+    allPhones: Phone[],
+    constraints: UserConstraints,
+    currentRanked: PhoneWithScore[]
+): SensitivityRule[] {
+    const [leader, ...runnersUp] = currentRanked;
+    if (!leader || runnersUp.length === 0) return [];
+
+    // Leaders under each candidate budget and dropped requirement don't depend on the runner-up
+    const budgetLeaders = new Map<number, string | undefined>();
+    if (constraints.budget !== undefined) {
+        // Only phones meeting every other constraint can change the ranking as the budget moves
+        const [withoutBudget] = applyAllRules(allPhones, { ...constraints, budget: undefined });
+        const prices = new Set(
+            withoutBudget
+                .map(p => getPhonePrice(p, constraints.currency, constraints.region))
+                .filter((price): price is number => price !== undefined && price !== constraints.budget)
+        );
+        for (const budget of prices) {
+            budgetLeaders.set(budget, findLeader(allPhones, { ...constraints, budget }));
+        }
+    }
+    const requirements = listRequirements(constraints).map(requirement => ({
+        ...requirement,
+        leader: findLeader(allPhones, requirement.constraints),
+    }));
+
+    const rules: SensitivityRule[] = [];
+    for (const runnerUp of runnersUp) {
+        const candidates: FlipCandidate[] = [];
+
+        const weight = findWeightFlip(runnerUp, leader, currentRanked, constraints);
+        if (weight) candidates.push(weight);
+
+        const reorder = findReorderFlip(runnerUp, leader, currentRanked, constraints);
+        if (reorder) candidates.push(reorder);
+
+        const budget = findBudgetFlip(runnerUp, leader, constraints, budgetLeaders);
+        if (budget) candidates.push(budget);
+
+        const dropped = requirements.find(r => r.leader === runnerUp.phone.id);
+        if (dropped) {
+            const { impact, outcome } = describeFlip(runnerUp, leader);
+            candidates.push({
+                rule: {
+                    adjustment_type: "remove_requirement",
+                    adjustment_details: { ...dropped.details, phone_id: runnerUp.phone.id },
+                    impact,
+                    conditional_statement: `IF the ${dropped.label} requirement is dropped, THEN ${outcome}`,
+                },
+                size: 1,
+            });
+        }
+
+        // Stable sort keeps the order above on equal sizes
+        const [smallest] = candidates.sort((a, b) => a.size - b.size);
+        if (smallest) rules.push(smallest.rule);
+    }
+
+    return rules;
+}
+
 /**
  * Generate all sensitivity rules for a comparison result
  */
@@ -189,18 +635,29 @@ export function generateSensitivityRules(
     if (currentRanked.length === 0) {
         // No qualifying phones - suggest constraint relaxation
         rules.push(...analyzeConstraintRelaxation(allPhones, constraints));
+        rules.push(...analyzeBoundRelaxation(allPhones, constraints, currentRanked));
     } else {
         // Analyze budget increases for more options
         rules.push(...analyzeBudgetIncrease(allPhones, constraints, currentRanked));
 
-        // Analyze priority reordering
-        rules.push(...analyzePriorityReorder(
-            currentRanked.map(p => p.phone),
-            constraints,
-            currentRanked
+        // Analyze relaxing min/max dimension bounds
+        rules.push(...analyzeBoundRelaxation(allPhones, constraints, currentRanked));
+
+        // Walk the budget down to show what cheaper phones take over
+        const timeline = analyzeBudgetDecrease(allPhones, constraints, currentRanked);
+        rules.push(...timeline);
+
+        // Show the consequences of requirements the user hasn't committed to
+        rules.push(...analyzeAddRequirement(allPhones, constraints, currentRanked));
+
+        // Find the smallest change that puts each runner-up on top.
+        // Budget cuts already on the timeline are not repeated.
+        const onTimeline = new Set(timeline.map(r => `${r.adjustment_details.to}:${r.adjustment_details.phone_id}`));
+        rules.push(...analyzeTopPickFlips(allPhones, constraints, currentRanked).filter(r =>
+            r.adjustment_type !== "budget_decrease"
+            || !onTimeline.has(`${r.adjustment_details.to}:${r.adjustment_details.phone_id}`)
         ));
     }
 
-    // Limit to max 5 rules
-    return rules.slice(0, 5);
+    return rules;
 }
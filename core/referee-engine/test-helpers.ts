@@ -0,0 +1,13 @@
+import { Phone, PhoneSpecs } from "./types";
+
+/**
+ * Build a 5G phone listed only in the US at a USD price, for engine tests
+ */
+export function makePhone(id: string, specs: Partial<PhoneSpecs>, price = 500): Phone {
+    return {
+        id,
+        name: id,
+        specs: { has_5g: true, ...specs },
+        regions: { US: { status: "available", price: { amount: price, currency: "USD" } } },
+    };
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import { TradeOffPair, UserConstraintsSchema } from "./types";
+import { scoreAndRankPhones } from "./scoring";
+import {
+    buildTradeOffMatrix,
+    calculateDimensionTradeOff,
+    calculatePairwiseTradeOffs,
+    calculateParetoDominance,
+    classifySignificance,
+} from "./tradeoffs";
+import { makePhone } from "./test-helpers";
+
+describe("calculateParetoDominance", () => {
+    const constraints = UserConstraintsSchema.parse({ prioritized_dimensions: ["battery_mah"] });
+
+    it("never lets a pricier phone dominate a cheaper one, even when price is not a priority", () => {
+        const ranked = scoreAndRankPhones(
+            [makePhone("big-battery", { battery_mah: 5500 }, 499), makePhone("cheap", { battery_mah: 5000 }, 449)],
+            constraints
+        );
+
+        const { paretoOptimalIds, dominated } = calculateParetoDominance(ranked, ["battery_mah"]);
+        expect(paretoOptimalIds.sort()).toEqual(["big-battery", "cheap"]);
+        expect(dominated).toEqual([]);
+    });
+
+    it("counts price among the dimensions a dominating phone wins on", () => {
+        const ranked = scoreAndRankPhones(
+            [makePhone("better", { battery_mah: 5500 }, 449), makePhone("worse", { battery_mah: 5000 }, 499)],
+            constraints
+        );
+
+        const { dominated } = calculateParetoDominance(ranked, ["battery_mah"]);
+        expect(dominated).toHaveLength(1);
+        expect(dominated[0]).toMatchObject({
+            phone_id: "worse",
+            dominated_by_id: "better",
+            better_dimensions: ["battery_mah", "price"],
+        });
+    });
+});
+
+describe("buildTradeOffMatrix", () => {
+    const constraints = UserConstraintsSchema.parse({ prioritized_dimensions: ["battery_mah", "camera_mp"] });
+    const ranked = scoreAndRankPhones(
+        [
+            makePhone("a", { battery_mah: 6000, camera_mp: 50, weight_grams: 200 }),
+            makePhone("b", { battery_mah: 5000, camera_mp: 54, weight_grams: 180 }),
+            makePhone("c", { battery_mah: 4000, camera_mp: 64, weight_grams: 170 }),
+        ],
+        constraints
+    );
+    const pairs = (matrix: ReturnType<typeof buildTradeOffMatrix>) =>
+        matrix.map(p => [p.phone_a_id, p.phone_b_id, p.rank_gap]);
+
+    it("covers every pair, adjacent ranks first unless rank order is asked for", () => {
+        expect(ranked.map(p => p.phone.id)).toEqual(["a", "b", "c"]);
+        expect(pairs(buildTradeOffMatrix(ranked, constraints.prioritized_dimensions))).toEqual([
+            ["a", "b", 1],
+            ["b", "c", 1],
+            ["a", "c", 2],
+        ]);
+        expect(pairs(buildTradeOffMatrix(ranked, constraints.prioritized_dimensions, { order: "rank" }))).toEqual([
+            ["a", "b", 1],
+            ["a", "c", 2],
+            ["b", "c", 1],
+        ]);
+    });
+
+    it("splits each pair into gains and sacrifices, prioritized dimensions first", () => {
+        const [ab] = buildTradeOffMatrix(ranked, constraints.prioritized_dimensions, { includeNegligible: true });
+        const summary = (trades: TradeOffPair[]) => trades.map(t => [t.dimension, t.prioritized]);
+
+        expect(summary(ab!.gains)).toEqual([["battery_mah", true]]);
+        expect(summary(ab!.sacrifices)).toEqual([
+            ["camera_mp", true],
+            ["weight_grams", false],
+        ]);
+    });
+
+    it("limits the matrix to the top prioritized dimensions when asked", () => {
+        const [ab] = buildTradeOffMatrix(ranked, constraints.prioritized_dimensions, {
+            maxDimensions: 1,
+            includeUnprioritized: false,
+            includeNegligible: true,
+        });
+
+        expect([...ab!.gains, ...ab!.sacrifices].map(t => t.dimension)).toEqual(["battery_mah"]);
+    });
+});
+
+describe("calculatePairwiseTradeOffs", () => {
+    it("compares every prioritized dimension by default", () => {
+        const constraints = UserConstraintsSchema.parse({
+            prioritized_dimensions: ["battery_mah", "camera_mp", "weight_grams"],
+        });
+        const ranked = scoreAndRankPhones(
+            [
+                makePhone("a", { battery_mah: 6000, camera_mp: 50, weight_grams: 220 }),
+                makePhone("b", { battery_mah: 4000, camera_mp: 200, weight_grams: 160 }),
+            ],
+            constraints
+        );
+
+        expect(calculatePairwiseTradeOffs(ranked, constraints.prioritized_dimensions).map(t => t.dimension)).toEqual([
+            "battery_mah",
+            "camera_mp",
+            "weight_grams",
+        ]);
+    });
+});
+
+describe("trade-off significance", () => {
+    it("classifies percentage differences against per-dimension thresholds", () => {
+        expect(classifySignificance("battery_mah", 4.9)).toBe("negligible");
+        expect(classifySignificance("battery_mah", 5)).toBe("noticeable");
+        expect(classifySignificance("battery_mah", 15)).toBe("major");
+        expect(classifySignificance("screen_inches", 5)).toBe("noticeable");
+    });
+
+    it("measures deltas against the worse value and formats them with units", () => {
+        const big = makePhone("big", { battery_mah: 5000, screen_inches: 6.2 }, 500);
+        const small = makePhone("small", { battery_mah: 4000, screen_inches: 6.1 }, 450);
+
+        expect(calculateDimensionTradeOff(big, small, "battery_mah")).toMatchObject({
+            delta: 1000,
+            percent_delta: 25,
+            significance: "major",
+            explanation: "big has 1,000 mAh (25%) more battery than small",
+        });
+        expect(calculateDimensionTradeOff(big, small, "screen_inches")).toMatchObject({
+            delta: 0.1,
+            percent_delta: 1.6,
+            significance: "negligible",
+        });
+        expect(calculateDimensionTradeOff(big, small, "price")).toMatchObject({
+            advantage_phone_id: "small",
+            percent_delta: 10,
+            significance: "noticeable",
+            explanation: "small is $50 (10%) cheaper than big",
+        });
+    });
+
+    it("leaves negligible differences out unless asked for", () => {
+        const constraints = UserConstraintsSchema.parse({ prioritized_dimensions: ["battery_mah", "screen_inches"] });
+        const ranked = scoreAndRankPhones(
+            [
+                makePhone("big", { battery_mah: 5000, screen_inches: 6.2 }),
+                makePhone("small", { battery_mah: 4000, screen_inches: 6.1 }),
+            ],
+            constraints
+        );
+        const dimensions = (includeNegligible: boolean) =>
+            calculatePairwiseTradeOffs(ranked, constraints.prioritized_dimensions, 2, "USD", includeNegligible)
+                .map(t => t.dimension);
+
+        expect(dimensions(false)).toEqual(["battery_mah"]);
+        expect(dimensions(true)).toEqual(["battery_mah", "screen_inches"]);
+    });
+});
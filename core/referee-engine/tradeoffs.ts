@@ -1,11 +1,69 @@
-import { Phone, PhoneWithScore, TradeOffPair, ComparisonDimension } from "./types";
-import { getDimensionValue } from "./scoring";
-import { getDimensionDisplayName, getDimensionUnit } from "@/lib/utils";
+import {
+    Phone,
+    PhoneWithScore,
+    TradeOffPair,
+    PairTradeOffs,
+    ComparisonDimension,
+    ComparisonDimensionSchema,
+    Currency,
+    Dominance,
+    TradeOffSignificance
+} from "./types";
+import { getDimensionValue, LOWER_IS_BETTER } from "./scoring";
+import { formatDimensionDelta, formatPercentDelta, getDimensionDisplayName } from "@/lib/utils";
 
 /**
- * Dimensions where lower values are better
+ * Percentage differences at which a trade-off becomes noticeable and major.
+ * Below the first threshold it is negligible (e.g. 0.1 inches of screen).
  */
-const LOWER_IS_BETTER: ComparisonDimension[] = ["price_usd", "weight_grams"];
+export const SIGNIFICANCE_THRESHOLDS: Record<ComparisonDimension, [number, number]> = {
+    battery_mah: [5, 15],
+    camera_mp: [10, 50],
+    screen_inches: [3, 8],
+    storage_gb: [25, 100],
+    weight_grams: [5, 15],
+    processor_benchmark: [10, 30],
+    ram_gb: [20, 50],
+    refresh_rate_hz: [10, 40],
+    fast_charging_w: [20, 100],
+    price: [5, 20],
+};
+
+/**
+ * How matrix pairs are ordered: "relevance" puts neighbouring ranks first,
+ * "rank" keeps the order of the higher ranked phone
+ */
+export type TradeOffOrder = "relevance" | "rank";
+
+export interface TradeOffMatrixOptions {
+    /** Number of top prioritized dimensions compared; all of them by default */
+    maxDimensions?: number;
+    /** Also compare the dimensions the user did not prioritize (default true) */
+    includeUnprioritized?: boolean;
+    order?: TradeOffOrder;
+    currency?: Currency;
+    /** User's region, whose listed prices are compared */
+    region?: string;
+    /** Keep trade-offs classified as negligible (default false) */
+    includeNegligible?: boolean;
+}
+
+/**
+ * Classify a percentage difference on a dimension
+ */
+export function classifySignificance(dimension: ComparisonDimension, percentDelta: number): TradeOffSignificance {
+    const [noticeable, major] = SIGNIFICANCE_THRESHOLDS[dimension];
+    if (percentDelta >= major) return "major";
+    return percentDelta >= noticeable ? "noticeable" : "negligible";
+}
+
+/**
+ * Display name inside a sentence: lower case except acronyms like RAM
+ */
+function inlineName(dimension: string): string {
+    const name = getDimensionDisplayName(dimension);
+    return name === name.toUpperCase() ? name : name.toLowerCase();
+}
 
 /**
  * Calculate trade-offs between two phones for a specific dimension
@@ -13,10 +71,13 @@ const LOWER_IS_BETTER: ComparisonDimension[] = ["price_usd", "weight_grams"];
 export function calculateDimensionTradeOff(
     phoneA: Phone,
     phoneB: Phone,
-    dimension: ComparisonDimension
+    dimension: ComparisonDimension,
+    currency: Currency = "USD",
+    prioritized: boolean = true,
+    region?: string
 ): TradeOffPair | null {
-    const valueA = getDimensionValue(phoneA, dimension);
-    const valueB = getDimensionValue(phoneB, dimension);
+    const valueA = getDimensionValue(phoneA, dimension, currency, region);
+    const valueB = getDimensionValue(phoneB, dimension, currency, region);
 
     // Can't compare if either is missing data
     if (valueA === undefined || valueB === undefined) {
@@ -28,7 +89,8 @@ export function calculateDimensionTradeOff(
         return null;
     }
 
-    const delta = Math.abs(valueA - valueB);
+    // Round away floating-point noise such as 0.6800000000000006 inches
+    const delta = Math.round(Math.abs(valueA - valueB) * 100) / 100;
     const lowerIsBetter = LOWER_IS_BETTER.includes(dimension);
 
     // Determine which phone has the advantage
@@ -42,17 +104,19 @@ export function calculateDimensionTradeOff(
     const advantagePhone = advantagePhoneId === phoneA.id ? phoneA : phoneB;
     const disadvantagePhone = advantagePhoneId === phoneA.id ? phoneB : phoneA;
 
-    const unit = getDimensionUnit(dimension);
-    const displayName = getDimensionDisplayName(dimension);
+    // Relative to the worse value, so "20% cheaper" and "20% more battery" read naturally
+    const base = advantagePhoneId === phoneA.id ? valueB : valueA;
+    const percentDelta = base > 0 ? Math.round((delta / base) * 1000) / 10 : 100;
+    const amount = `${formatDimensionDelta(dimension, delta, currency)} (${formatPercentDelta(percentDelta)})`;
 
     // Format the explanation
     let explanation: string;
-    if (dimension === "price_usd") {
-        explanation = `${advantagePhone.name} is $${delta.toFixed(0)} cheaper than ${disadvantagePhone.name}`;
+    if (dimension === "price") {
+        explanation = `${advantagePhone.name} is ${amount} cheaper than ${disadvantagePhone.name}`;
     } else if (dimension === "weight_grams") {
-        explanation = `${advantagePhone.name} is ${delta}g lighter than ${disadvantagePhone.name}`;
+        explanation = `${advantagePhone.name} is ${amount} lighter than ${disadvantagePhone.name}`;
     } else {
-        explanation = `${advantagePhone.name} has ${delta}${unit ? " " + unit : ""} more ${displayName.toLowerCase()} than ${disadvantagePhone.name}`;
+        explanation = `${advantagePhone.name} has ${amount} more ${inlineName(dimension)} than ${disadvantagePhone.name}`;
     }
 
     return {
@@ -61,18 +125,25 @@ export function calculateDimensionTradeOff(
         dimension,
         advantage_phone_id: advantagePhoneId,
         delta,
+        percent_delta: percentDelta,
+        significance: classifySignificance(dimension, percentDelta),
         explanation,
+        prioritized,
     };
 }
 
 /**
  * Generate all pairwise trade-offs between qualified phones
- * Limited to top 2 prioritized dimensions to avoid overwhelming output
+ * on the top `maxDimensions` prioritized dimensions (all by default).
+ * Negligible differences are left out unless `includeNegligible` is set.
  */
 export function calculatePairwiseTradeOffs(
     rankedPhones: PhoneWithScore[],
     prioritizedDimensions: ComparisonDimension[],
-    maxDimensions: number = 2
+    maxDimensions: number = prioritizedDimensions.length,
+    currency: Currency = "USD",
+    includeNegligible: boolean = false,
+    region?: string
 ): TradeOffPair[] {
     const tradeOffs: TradeOffPair[] = [];
 
@@ -89,8 +160,8 @@ export function calculatePairwiseTradeOffs(
             const phoneB = phoneDataB.phone;
 
             for (const dimension of dimensionsToCompare) {
-                const tradeOff = calculateDimensionTradeOff(phoneA, phoneB, dimension);
-                if (tradeOff) {
+                const tradeOff = calculateDimensionTradeOff(phoneA, phoneB, dimension, currency, true, region);
+                if (tradeOff && (includeNegligible || tradeOff.significance !== "negligible")) {
                     tradeOffs.push(tradeOff);
                 }
             }
@@ -101,22 +172,169 @@ export function calculatePairwiseTradeOffs(
 }
 
 /**
- * Generate a summary of trade-offs for display
+ * Build the trade-off matrix: for every pair of ranked phones, the dimensions
+ * where the higher ranked phone gains and where it sacrifices.
+ * Prioritized dimensions come first in priority order, then the unprioritized ones.
+ */
+export function buildTradeOffMatrix(
+    rankedPhones: PhoneWithScore[],
+    prioritizedDimensions: ComparisonDimension[],
+    options: TradeOffMatrixOptions = {}
+): PairTradeOffs[] {
+    const {
+        maxDimensions = prioritizedDimensions.length,
+        includeUnprioritized = true,
+        order = "relevance",
+        currency = "USD",
+        region,
+        includeNegligible = false,
+    } = options;
+
+    const prioritized = prioritizedDimensions.slice(0, maxDimensions);
+    const unprioritized = includeUnprioritized
+        ? ComparisonDimensionSchema.options.filter(d => !prioritizedDimensions.includes(d))
+        : [];
+
+    const matrix: PairTradeOffs[] = [];
+    for (let i = 0; i < rankedPhones.length; i++) {
+        for (let j = i + 1; j < rankedPhones.length; j++) {
+            const phoneA = rankedPhones[i]?.phone;
+            const phoneB = rankedPhones[j]?.phone;
+            if (!phoneA || !phoneB) continue;
+
+            const tradeOffs = [
+                ...prioritized.map(d => calculateDimensionTradeOff(phoneA, phoneB, d, currency, true, region)),
+                ...unprioritized.map(d => calculateDimensionTradeOff(phoneA, phoneB, d, currency, false, region)),
+            ].filter((t): t is TradeOffPair => t !== null && (includeNegligible || t.significance !== "negligible"));
+
+            matrix.push({
+                phone_a_id: phoneA.id,
+                phone_b_id: phoneB.id,
+                rank_gap: j - i,
+                gains: tradeOffs.filter(t => t.advantage_phone_id === phoneA.id),
+                sacrifices: tradeOffs.filter(t => t.advantage_phone_id === phoneB.id),
+            });
+        }
+    }
+
+    // Sort is stable, so pairs with the same gap keep rank order
+    return order === "relevance" ? matrix.sort((a, b) => a.rank_gap - b.rank_gap) : matrix;
+}
+
+/**
+ * Compare two phones on every dimension for Pareto dominance.
+ * Returns the dimensions where `a` is strictly better and equal, or null
+ * when `a` does not dominate `b` (worse somewhere, never better, or missing data).
+ */
+export function checkDominance(
+    a: Phone,
+    b: Phone,
+    dimensions: ComparisonDimension[],
+    currency: Currency = "USD",
+    region?: string
+): { better: ComparisonDimension[]; equal: ComparisonDimension[] } | null {
+    const better: ComparisonDimension[] = [];
+    const equal: ComparisonDimension[] = [];
+
+    for (const dimension of dimensions) {
+        const valueA = getDimensionValue(a, dimension, currency, region);
+        const valueB = getDimensionValue(b, dimension, currency, region);
+        if (valueA === undefined || valueB === undefined) return null;
+
+        if (valueA === valueB) {
+            equal.push(dimension);
+        } else if (LOWER_IS_BETTER.includes(dimension) ? valueA < valueB : valueA > valueB) {
+            better.push(dimension);
+        } else {
+            return null;
+        }
+    }
+
+    return better.length > 0 ? { better, equal } : null;
+}
+
+/**
+ * Find the Pareto-optimal phones over the prioritized dimensions and price.
+ * Price always counts (lower is better), so a cheaper phone is never dominated by a pricier one.
+ * Every dominated phone names the phone that beats or matches it everywhere,
+ * preferring the one that is strictly better on the most dimensions, then the higher ranked.
+ */
+export function calculateParetoDominance(
+    rankedPhones: PhoneWithScore[],
+    prioritizedDimensions: ComparisonDimension[],
+    currency: Currency = "USD",
+    region?: string
+): { paretoOptimalIds: string[]; dominated: Dominance[] } {
+    const paretoOptimalIds: string[] = [];
+    const dominated: Dominance[] = [];
+    const nameOf = (dimension: ComparisonDimension) => getDimensionDisplayName(dimension).toLowerCase();
+    const dimensions: ComparisonDimension[] = prioritizedDimensions.includes("price")
+        ? prioritizedDimensions
+        : [...prioritizedDimensions, "price"];
+
+    for (const candidate of rankedPhones) {
+        let best: { phone: Phone; better: ComparisonDimension[]; equal: ComparisonDimension[] } | null = null;
+
+        // rankedPhones is ordered by rank, so ties on dimension count keep the higher ranked phone
+        for (const other of rankedPhones) {
+            if (other === candidate) continue;
+            const result = checkDominance(other.phone, candidate.phone, dimensions, currency, region);
+            if (result && (!best || result.better.length > best.better.length)) {
+                best = { phone: other.phone, ...result };
+            }
+        }
+
+        if (!best) {
+            paretoOptimalIds.push(candidate.phone.id);
+            continue;
+        }
+
+        const sameOn = best.equal.length > 0 ? `, matching it on ${best.equal.map(nameOf).join(", ")}` : "";
+        dominated.push({
+            phone_id: candidate.phone.id,
+            dominated_by_id: best.phone.id,
+            better_dimensions: best.better,
+            equal_dimensions: best.equal,
+            explanation: `${candidate.phone.name} is dominated by ${best.phone.name} on ${best.better.map(nameOf).join(", ")}${sameOn}`,
+        });
+    }
+
+    return { paretoOptimalIds, dominated };
+}
+
+/**
+ * Generate a summary of trade-offs for display, one line per phone pair:
+ * "Google Pixel 8 vs iPhone 15: Google Pixel 8 leads on battery, camera; iPhone 15 leads on weight"
  */
 export function summarizeTradeOffs(
     tradeOffs: TradeOffPair[],
     phones: Phone[]
 ): string[] {
-    const summaries: string[] = [];
-
-    // Group trade-offs by phone pair
     const phoneMap = new Map(phones.map(p => [p.id, p]));
+    const nameOf = (id: string) => phoneMap.get(id)?.name ?? id;
 
+    // Group trade-offs by phone pair, keeping first-seen order
+    const pairs = new Map<string, TradeOffPair[]>();
     for (const tradeOff of tradeOffs) {
-        summaries.push(tradeOff.explanation);
+        const key = `${tradeOff.phone_a_id}:${tradeOff.phone_b_id}`;
+        pairs.set(key, [...(pairs.get(key) ?? []), tradeOff]);
     }
 
-    return summaries;
+    return [...pairs.values()].map(group => {
+        const [first] = group;
+        if (!first) return "";
+
+        const leads = [first.phone_a_id, first.phone_b_id]
+            .map(id => {
+                const dimensions = group
+                    .filter(t => t.advantage_phone_id === id)
+                    .map(t => getDimensionDisplayName(t.dimension).toLowerCase());
+                return dimensions.length > 0 ? `${nameOf(id)} leads on ${dimensions.join(", ")}` : "";
+            })
+            .filter(Boolean);
+
+        return `${nameOf(first.phone_a_id)} vs ${nameOf(first.phone_b_id)}: ${leads.join("; ")}`;
+    });
 }
 
 /**
@@ -124,7 +342,8 @@ export function summarizeTradeOffs(
  */
 export function formatTradeOffStatement(
     tradeOff: TradeOffPair,
-    phones: Map<string, Phone>
+    phones: Map<string, Phone>,
+    currency: Currency = "USD"
 ): string {
     const advantagePhone = phones.get(tradeOff.advantage_phone_id);
     const otherPhoneId = tradeOff.phone_a_id === tradeOff.advantage_phone_id
@@ -136,8 +355,6 @@ export function formatTradeOffStatement(
         return tradeOff.explanation;
     }
 
-    const unit = getDimensionUnit(tradeOff.dimension);
-    const displayName = getDimensionDisplayName(tradeOff.dimension);
-
-    return `${advantagePhone.name} gains ${tradeOff.delta}${unit ? " " + unit : ""} ${displayName.toLowerCase()} vs ${otherPhone.name}`;
+    const amount = formatDimensionDelta(tradeOff.dimension, tradeOff.delta, currency);
+    return `${advantagePhone.name} gains ${amount} (${formatPercentDelta(tradeOff.percent_delta)}) ${inlineName(tradeOff.dimension)} vs ${otherPhone.name}`;
 }
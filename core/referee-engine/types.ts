@@ -12,10 +12,37 @@ export const PhoneSpecsSchema = z.object({
   storage_gb: z.number().positive().optional(),
   weight_grams: z.number().positive().optional(),
   processor_benchmark: z.number().min(0).max(100000).optional(),
+  ram_gb: z.number().positive().optional(),
+  refresh_rate_hz: z.number().positive().optional(),
+  fast_charging_w: z.number().positive().optional(),
+  front_camera_mp: z.number().positive().optional(),
+  processor: z.string().min(1).optional(),
+  display_type: z.string().min(1).optional(),
+  os: z.string().min(1).optional(),
+  rear_camera_details: z.string().min(1).optional(),
 });
 
 export type PhoneSpecs = z.infer<typeof PhoneSpecsSchema>;
 
+// ============================================
+// Pricing
+// ============================================
+
+export const CurrencySchema = z.enum(["USD", "INR", "GBP", "EUR"]);
+export type Currency = z.infer<typeof CurrencySchema>;
+
+/**
+ * Listed price per currency, derived from a phone's regional prices
+ */
+export type PriceTable = Partial<Record<Currency, number>>;
+
+export const RegionalPriceSchema = z.object({
+  amount: z.number().min(0),
+  currency: CurrencySchema,
+});
+
+export type RegionalPrice = z.infer<typeof RegionalPriceSchema>;
+
 // ============================================
 // Phone Entity
 // ============================================
@@ -23,13 +50,37 @@ export type PhoneSpecs = z.infer<typeof PhoneSpecsSchema>;
 export const AvailabilitySchema = z.enum(["available", "discontinued", "preorder"]);
 export type Availability = z.infer<typeof AvailabilitySchema>;
 
+export const RegionCodeSchema = z.string().length(2); // ISO 3166-1 alpha-2
+
+/**
+ * Region a user asks for, upper-cased, with the common "UK" accepted for GB
+ */
+export const RequestedRegionSchema = RegionCodeSchema.transform(code => {
+  const upper = code.toUpperCase();
+  return upper === "UK" ? "GB" : upper;
+});
+
+export const RegionAvailabilitySchema = z.object({
+  status: AvailabilitySchema,
+  launch_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Launch date must be YYYY-MM-DD").optional(),
+  price: RegionalPriceSchema.optional(),
+});
+
+export type RegionAvailability = z.infer<typeof RegionAvailabilitySchema>;
+
 export const PhoneSchema = z.object({
   id: z.string().regex(/^[a-z0-9-]+$/, "ID must be kebab-case"),
   name: z.string().min(1),
-  price_usd: z.number().min(0),
+  brand: z.string().min(1).optional(),
   specs: PhoneSpecsSchema,
-  availability: AvailabilitySchema,
-  region: z.string().length(2), // ISO 3166-1 alpha-2
+  regions: z
+    .record(RegionCodeSchema, RegionAvailabilitySchema)
+    .refine(regions => Object.keys(regions).length > 0, "At least one region is required")
+    .refine(
+      regions => Object.values(regions).some(r => r.price !== undefined),
+      "At least one regional price is required"
+    ),
+  key_features: z.array(z.string()).optional(),
 });
 
 export type Phone = z.infer<typeof PhoneSchema>;
@@ -45,19 +96,68 @@ export const ComparisonDimensionSchema = z.enum([
   "storage_gb",
   "weight_grams",
   "processor_benchmark",
-  "price_usd",
+  "ram_gb",
+  "refresh_rate_hz",
+  "fast_charging_w",
+  "price",
 ]);
 
 export type ComparisonDimension = z.infer<typeof ComparisonDimensionSchema>;
 
+export const DimensionBoundSchema = z
+  .object({
+    min: z.number().optional(),
+    max: z.number().optional(),
+  })
+  .refine(b => b.min !== undefined || b.max !== undefined, {
+    message: "A dimension bound needs a min or a max",
+  })
+  .refine(b => b.min === undefined || b.max === undefined || b.min <= b.max, {
+    message: "A dimension bound's min cannot exceed its max",
+  });
+
+export type DimensionBound = z.infer<typeof DimensionBoundSchema>;
+
+// How raw dimension values become 0-1 scores
+export const NormalizationStrategySchema = z.enum([
+  "min_max",
+  "percentile",
+  "z_score", // clamped to ±2 standard deviations
+  "log", // log scale for camera_mp and storage_gb, min-max elsewhere
+  "reference", // fixed per-dimension reference ranges
+]);
+
+export type NormalizationStrategy = z.infer<typeof NormalizationStrategySchema>;
+
+// How priority order turns into weights when no explicit weights are given
+export const WeightingSchemeSchema = z.enum([
+  "exponential", // 1, 0.5, 0.25, ...
+  "linear", // 1, 0.8, 0.6, ...
+  "rank_sum", // n, n-1, ..., 1
+  "equal",
+]);
+
+export type WeightingScheme = z.infer<typeof WeightingSchemeSchema>;
+
 export const UserConstraintsSchema = z.object({
   budget: z.number().positive().optional(),
   required_features: z.record(z.string(), z.unknown()).optional(),
+  // Inclusive min/max bounds per dimension, e.g. { weight_grams: { max: 190 } }
+  dimension_bounds: z.record(ComparisonDimensionSchema, DimensionBoundSchema).optional(),
   prioritized_dimensions: z
     .array(ComparisonDimensionSchema)
     .min(1)
     .max(5),
-  region: z.string().length(2).default("US"),
+  region: RequestedRegionSchema.default("US"),
+  currency: CurrencySchema.default("USD"),
+  // Defaults to min_max
+  normalization: NormalizationStrategySchema.optional(),
+  // Defaults to exponential decay; ignored when dimension_weights is given
+  weighting_scheme: WeightingSchemeSchema.optional(),
+  // Explicit relative weight for every prioritized dimension, e.g. { battery_mah: 55, camera_mp: 45 }
+  dimension_weights: z.record(ComparisonDimensionSchema, z.number().min(0)).optional(),
+  // Weighted-score difference within which phones are statistically tied; defaults to 0.01
+  tie_epsilon: z.number().min(0).max(1).optional(),
 });
 
 export type UserConstraints = z.infer<typeof UserConstraintsSchema>;
@@ -72,14 +172,26 @@ export const RejectionReasonSchema = z.enum([
   "UNAVAILABLE_IN_REGION",
   "DISCONTINUED",
   "INCOMPLETE_DATA",
+  "EXCLUDED_BRAND",
+  "OUT_OF_RANGE",
 ]);
 
 export type RejectionReason = z.infer<typeof RejectionReasonSchema>;
 
+export const RuleFailureSchema = z.object({
+  reason: RejectionReasonSchema,
+  details: z.string(),
+});
+
+export type RuleFailure = z.infer<typeof RuleFailureSchema>;
+
 export const EliminatedPhoneSchema = z.object({
   phone: PhoneSchema,
+  // First failure in rule order, kept for grouping and summaries
   rejection_reason: RejectionReasonSchema,
   rejection_details: z.string(),
+  // Every rule the phone failed, in rule order
+  failures: z.array(RuleFailureSchema).min(1),
 });
 
 export type EliminatedPhone = z.infer<typeof EliminatedPhoneSchema>;
@@ -88,11 +200,31 @@ export type EliminatedPhone = z.infer<typeof EliminatedPhoneSchema>;
 // Scoring and Ranked Phones
 // ============================================
 
+export const TieBreakSchema = z.object({
+  // Other phones with the same weighted score
+  tied_with: z.array(z.string()).min(1),
+  // What ordered this phone against its neighbour in the tie;
+  // "shared" when nothing did and the rank is shared
+  decided_by: z.union([ComparisonDimensionSchema, z.literal("shared")]),
+});
+
+export type TieBreak = z.infer<typeof TieBreakSchema>;
+
 export const PhoneWithScoreSchema = z.object({
   phone: PhoneSchema,
   dimension_scores: z.record(z.string(), z.number().min(0).max(1)),
+  // Tied phones share a rank (1, 1, 3)
   overall_rank: z.number().int().min(1),
   conditional_statement: z.string(),
+  // Raw weighted score (0-1) the ranking is based on
+  weighted_score: z.number().min(0),
+  // Weighted-score gap to the phones ranked directly above and below
+  margin_above: z.number().min(0).optional(),
+  margin_below: z.number().min(0).optional(),
+  // Phones within tie_epsilon of their band's best score are statistically tied (1 = top band)
+  band: z.number().int().min(1),
+  // Present when the weighted score tied with another phone
+  tie_break: TieBreakSchema.optional(),
 });
 
 export type PhoneWithScore = z.infer<typeof PhoneWithScoreSchema>;
@@ -101,17 +233,58 @@ export type PhoneWithScore = z.infer<typeof PhoneWithScoreSchema>;
 // Trade-Off Analysis
 // ============================================
 
+// How much a trade-off matters, judged from per-dimension percentage thresholds
+export const TradeOffSignificanceSchema = z.enum(["negligible", "noticeable", "major"]);
+
+export type TradeOffSignificance = z.infer<typeof TradeOffSignificanceSchema>;
+
 export const TradeOffPairSchema = z.object({
   phone_a_id: z.string(),
   phone_b_id: z.string(),
   dimension: z.string(),
   advantage_phone_id: z.string(),
   delta: z.number(),
+  // Delta as a percentage of the disadvantaged phone's value
+  percent_delta: z.number().min(0),
+  significance: TradeOffSignificanceSchema,
   explanation: z.string(),
+  // False for dimensions outside the user's priorities
+  prioritized: z.boolean(),
 });
 
 export type TradeOffPair = z.infer<typeof TradeOffPairSchema>;
 
+// Every trade-off between two ranked phones, from phone A's point of view
+export const PairTradeOffsSchema = z.object({
+  // Higher ranked phone of the pair
+  phone_a_id: z.string(),
+  phone_b_id: z.string(),
+  // Positions between the two phones in the ranking (1 = adjacent)
+  rank_gap: z.number().int().min(1),
+  // Dimensions where phone A is better
+  gains: z.array(TradeOffPairSchema),
+  // Dimensions where phone B is better
+  sacrifices: z.array(TradeOffPairSchema),
+});
+
+export type PairTradeOffs = z.infer<typeof PairTradeOffsSchema>;
+
+// ============================================
+// Pareto Dominance
+// ============================================
+
+export const DominanceSchema = z.object({
+  phone_id: z.string(),
+  dominated_by_id: z.string(),
+  // Prioritized dimensions plus price where the dominating phone is strictly better
+  better_dimensions: z.array(ComparisonDimensionSchema).min(1),
+  // Prioritized dimensions plus price where both phones are equal
+  equal_dimensions: z.array(ComparisonDimensionSchema),
+  explanation: z.string(),
+});
+
+export type Dominance = z.infer<typeof DominanceSchema>;
+
 // ============================================
 // Sensitivity Analysis
 // ============================================
@@ -123,6 +296,8 @@ export const SensitivityRuleSchema = z.object({
     "priority_reorder",
     "add_requirement",
     "remove_requirement",
+    "relax_bound",
+    "weight_change",
   ]),
   adjustment_details: z.record(z.string(), z.unknown()),
   impact: z.string(),
@@ -137,9 +312,20 @@ export type SensitivityRule = z.infer<typeof SensitivityRuleSchema>;
 
 export const ComparisonMetadataSchema = z.object({
   timestamp: z.string().datetime(),
+  // Content hash of the catalog evaluated ("sha256:<hex>")
   phone_database_version: z.string(),
+  // Content hashes of constraints_used and of the engine config (version, scoring settings, reference tables, rules)
+  constraints_hash: z.string(),
+  engine_config_hash: z.string(),
+  // Date of the catalog snapshot evaluated, when the result was computed as of a snapshot
+  as_of: z.string().optional(),
   referee_engine_version: z.string(),
   execution_time_ms: z.number().int().min(0),
+  normalization: NormalizationStrategySchema,
+  weighting_scheme: z.union([WeightingSchemeSchema, z.literal("custom")]),
+  // Normalized weights (summing to 1) applied to each prioritized dimension
+  weights_used: z.record(ComparisonDimensionSchema, z.number().min(0).max(1)),
+  tie_epsilon: z.number().min(0).max(1),
 });
 
 export type ComparisonMetadata = z.infer<typeof ComparisonMetadataSchema>;
@@ -152,6 +338,11 @@ export const ComparisonResultSchema = z.object({
   qualified_phones: z.array(PhoneWithScoreSchema),
   eliminated_phones: z.array(EliminatedPhoneSchema),
   trade_offs: z.array(TradeOffPairSchema),
+  // Trade-offs grouped per phone pair over all dimensions, most relevant pairs first
+  trade_off_matrix: z.array(PairTradeOffsSchema),
+  // Qualified phones no other qualified phone dominates on the prioritized dimensions
+  pareto_optimal_ids: z.array(z.string()),
+  dominated_phones: z.array(DominanceSchema),
   sensitivity_rules: z.array(SensitivityRuleSchema),
   constraints_used: UserConstraintsSchema,
   metadata: ComparisonMetadataSchema,
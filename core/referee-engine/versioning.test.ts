@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { UserConstraintsSchema } from "./types";
+import { evaluatePhones } from "./index";
+import {
+    canonicalJson,
+    diffCatalogs,
+    hashConstraints,
+    hashContent,
+    hashPhoneCatalog,
+    verifyReproducibility,
+} from "./versioning";
+import { makePhone } from "./test-helpers";
+
+const catalog = [makePhone("alpha", { battery_mah: 5000 }, 499), makePhone("beta", { battery_mah: 4500 }, 449), makePhone("gamma", { battery_mah: 4000 }, 399)];
+
+describe("canonicalJson", () => {
+    it("sorts object keys at every level and drops undefined members", () => {
+        expect(canonicalJson({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: undefined } })).toBe(
+            '{"a":{"d":[2,{"e":0,"f":1}]},"b":1}'
+        );
+    });
+});
+
+describe("content hashes", () => {
+    it("are SHA-256 digests of the canonical JSON", () => {
+        // sha256("{}")
+        expect(hashContent({})).toBe("sha256:44136fa355b3678a1146ad16f7e8649e94fb4fc21fe77e8310c060f61caaff8a");
+    });
+
+    it("do not depend on key order or catalog order", () => {
+        const reordered = catalog.map(phone => ({ regions: phone.regions, specs: phone.specs, name: phone.name, id: phone.id }));
+
+        expect(hashPhoneCatalog([...reordered].reverse())).toBe(hashPhoneCatalog(catalog));
+        expect(hashConstraints(UserConstraintsSchema.parse({ prioritized_dimensions: ["price"], budget: 500 }))).toBe(
+            hashConstraints(UserConstraintsSchema.parse({ budget: 500, prioritized_dimensions: ["price"] }))
+        );
+    });
+
+    it("change with any edit to a phone", () => {
+        const repriced = catalog.map(phone =>
+            phone.id === "beta"
+                ? { ...phone, regions: { US: { status: "available" as const, price: { amount: 459, currency: "USD" as const } } } }
+                : phone
+        );
+
+        expect(hashPhoneCatalog(repriced)).not.toBe(hashPhoneCatalog(catalog));
+    });
+});
+
+describe("verifyReproducibility", () => {
+    const constraints = UserConstraintsSchema.parse({ budget: 500, prioritized_dimensions: ["battery_mah", "price"] });
+
+    it("records the same hashes for the same inputs on every run", () => {
+        const first = evaluatePhones(catalog, constraints).metadata;
+        const second = evaluatePhones([...catalog].reverse(), constraints).metadata;
+
+        expect(second.phone_database_version).toBe(first.phone_database_version);
+        expect(second.constraints_hash).toBe(first.constraints_hash);
+        expect(second.engine_config_hash).toBe(first.engine_config_hash);
+    });
+
+    it("accepts the catalog a result was computed from and names what differs otherwise", () => {
+        const result = evaluatePhones(catalog, constraints);
+
+        expect(verifyReproducibility(result, catalog)).toEqual({ reproducible: true, mismatches: [] });
+        expect(verifyReproducibility(result, catalog.slice(1))).toEqual({
+            reproducible: false,
+            mismatches: ["phone database"],
+        });
+        expect(verifyReproducibility({ ...result, constraints_used: { ...constraints, budget: 600 } }, catalog)).toEqual({
+            reproducible: false,
+            mismatches: ["constraints"],
+        });
+    });
+});
+
+describe("evaluatePhones with a catalog snapshot", () => {
+    const constraints = UserConstraintsSchema.parse({ budget: 500, prioritized_dimensions: ["battery_mah"] });
+
+    it("records the snapshot date as as_of", () => {
+        const snapshot = { id: hashPhoneCatalog(catalog), date: "2026-09-01", phones: catalog };
+        const result = evaluatePhones(snapshot, constraints);
+
+        expect(result.metadata.as_of).toBe("2026-09-01");
+        expect(result.metadata.phone_database_version).toBe(snapshot.id);
+    });
+
+    it("rejects phones that do not hash to the snapshot id", () => {
+        const snapshot = { id: hashPhoneCatalog(catalog), date: "2026-09-01", phones: catalog.slice(1) };
+
+        expect(() => evaluatePhones(snapshot, constraints)).toThrow("Catalog snapshot 2026-09-01 does not match its id");
+    });
+});
+
+describe("diffCatalogs", () => {
+    it("lists added, removed and repriced phones per region", () => {
+        const after = [
+            makePhone("beta", { battery_mah: 4500 }, 429),
+            {
+                ...makePhone("gamma", { battery_mah: 4000 }, 399),
+                regions: {
+                    US: { status: "available" as const, price: { amount: 399, currency: "USD" as const } },
+                    IN: { status: "available" as const, price: { amount: 32999, currency: "INR" as const } },
+                },
+            },
+            makePhone("delta", { battery_mah: 5200 }, 549),
+        ];
+
+        expect(diffCatalogs(catalog, after)).toEqual({
+            from: hashPhoneCatalog(catalog),
+            to: hashPhoneCatalog(after),
+            added: ["delta"],
+            removed: ["alpha"],
+            repriced: [
+                {
+                    phone_id: "beta",
+                    region: "US",
+                    from: { amount: 449, currency: "USD" },
+                    to: { amount: 429, currency: "USD" },
+                },
+                { phone_id: "gamma", region: "IN", from: undefined, to: { amount: 32999, currency: "INR" } },
+            ],
+        });
+    });
+
+    it("reports nothing between identical catalogs", () => {
+        const diff = diffCatalogs(catalog, [...catalog].reverse());
+
+        expect(diff.from).toBe(diff.to);
+        expect([diff.added, diff.removed, diff.repriced]).toEqual([[], [], []]);
+    });
+});
@@ -0,0 +1,168 @@
+import { createHash } from "crypto";
+import { ComparisonMetadata, ComparisonResult, Phone, RegionalPrice, UserConstraints } from "./types";
+import { EXCHANGE_RATES } from "./currency";
+import { LOG_SCALED_DIMENSIONS, PRICE_REFERENCE_RANGES, REFERENCE_RANGES } from "./normalization";
+import { SIGNIFICANCE_THRESHOLDS } from "./tradeoffs";
+import { getRegisteredRules } from "./rule-registry";
+
+/**
+ * Main referee engine version
+ */
+export const REFEREE_ENGINE_VERSION = "1.0.0";
+
+/**
+ * Scoring settings recorded in the result metadata
+ */
+export type ScoringMetadata = Pick<ComparisonMetadata, "normalization" | "weighting_scheme" | "weights_used" | "tie_epsilon">;
+
+/**
+ * Serialize a value as JSON with object keys sorted and undefined members dropped,
+ * so equal content always produces the same text
+ */
+export function canonicalJson(value: unknown): string {
+    return JSON.stringify(value, (_key, member: unknown) => {
+        if (typeof member !== "object" || member === null || Array.isArray(member)) return member;
+        return Object.fromEntries(
+            Object.entries(member)
+                .filter(([, v]) => v !== undefined)
+                .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        );
+    });
+}
+
+/**
+ * SHA-256 of a value's canonical JSON, e.g. "sha256:9f86d0…"
+ */
+export function hashContent(value: unknown): string {
+    return `sha256:${createHash("sha256").update(canonicalJson(value)).digest("hex")}`;
+}
+
+/**
+ * Content hash of a catalog. Phones are ordered by id, so the hash changes
+ * with any edit to a phone (a price, a spec, a region) but not with file order.
+ */
+export function hashPhoneCatalog(phones: Phone[]): string {
+    return hashContent([...phones].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)));
+}
+
+export function hashConstraints(constraints: UserConstraints): string {
+    return hashContent(constraints);
+}
+
+/**
+ * Content hash of everything besides the catalog and constraints that shapes a result:
+ * the engine version, scoring settings, reference tables and registered rules
+ */
+export function hashEngineConfig(scoring: ScoringMetadata): string {
+    return hashContent({
+        engine_version: REFEREE_ENGINE_VERSION,
+        scoring,
+        exchange_rates: EXCHANGE_RATES,
+        reference_ranges: REFERENCE_RANGES,
+        price_reference_ranges: PRICE_REFERENCE_RANGES,
+        log_scaled_dimensions: LOG_SCALED_DIMENSIONS,
+        significance_thresholds: SIGNIFICANCE_THRESHOLDS,
+        rules: getRegisteredRules().map(rule => rule.id),
+    });
+}
+
+export interface ReproducibilityCheck {
+    reproducible: boolean;
+    /** What differs from the saved result, e.g. "phone database" */
+    mismatches: string[];
+}
+
+/**
+ * Check that a saved result can be reproduced from a catalog snapshot with this engine:
+ * the snapshot, the saved constraints and the current engine config must all hash
+ * to the values recorded in the result's metadata
+ */
+export function verifyReproducibility(result: ComparisonResult, phones: Phone[]): ReproducibilityCheck {
+    const { metadata } = result;
+    const mismatches: string[] = [];
+
+    if (hashPhoneCatalog(phones) !== metadata.phone_database_version) {
+        mismatches.push("phone database");
+    }
+    if (hashConstraints(result.constraints_used) !== metadata.constraints_hash) {
+        mismatches.push("constraints");
+    }
+    const scoring: ScoringMetadata = {
+        normalization: metadata.normalization,
+        weighting_scheme: metadata.weighting_scheme,
+        weights_used: metadata.weights_used,
+        tie_epsilon: metadata.tie_epsilon,
+    };
+    if (hashEngineConfig(scoring) !== metadata.engine_config_hash) {
+        mismatches.push("engine config");
+    }
+
+    return { reproducible: mismatches.length === 0, mismatches };
+}
+
+/**
+ * A regional price that differs between two catalogs; a missing side means
+ * the region had no listed price in that catalog
+ */
+/**
+ * The catalog as it stood on a date, identified by its content hash
+ * (the `phone_database_version` of results computed from it)
+ */
+export interface CatalogSnapshot {
+    id: string;
+    date: string;
+    phones: Phone[];
+}
+
+export interface PriceChange {
+    phone_id: string;
+    region: string;
+    from?: RegionalPrice;
+    to?: RegionalPrice;
+}
+
+/**
+ * Phones added, removed or repriced between two catalogs, identified by content hash
+ */
+export interface CatalogDiff {
+    from: string;
+    to: string;
+    added: string[];
+    removed: string[];
+    repriced: PriceChange[];
+}
+
+function samePrice(a: RegionalPrice | undefined, b: RegionalPrice | undefined): boolean {
+    return a?.amount === b?.amount && a?.currency === b?.currency;
+}
+
+/**
+ * Compare two catalogs (e.g. last month's snapshot and today's catalog) by phone id
+ */
+export function diffCatalogs(before: Phone[], after: Phone[]): CatalogDiff {
+    const beforeById = new Map(before.map(phone => [phone.id, phone]));
+    const afterById = new Map(after.map(phone => [phone.id, phone]));
+    const repriced: PriceChange[] = [];
+
+    for (const [id, next] of afterById) {
+        const previous = beforeById.get(id);
+        if (!previous) continue;
+
+        const regions = new Set([...Object.keys(previous.regions), ...Object.keys(next.regions)]);
+        for (const region of [...regions].sort()) {
+            const from = previous.regions[region]?.price;
+            const to = next.regions[region]?.price;
+            if (!samePrice(from, to)) {
+                repriced.push({ phone_id: id, region, from, to });
+            }
+        }
+    }
+
+    return {
+        from: hashPhoneCatalog(before),
+        to: hashPhoneCatalog(after),
+        added: [...afterById.keys()].filter(id => !beforeById.has(id)).sort(),
+        removed: [...beforeById.keys()].filter(id => !afterById.has(id)).sort(),
+        repriced,
+    };
+}
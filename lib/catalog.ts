@@ -0,0 +1,73 @@
+import { Phone } from "@/core/referee-engine/types";
+import { ingestPhoneDatabase } from "@/lib/json-loader";
+import { ingestPhoneCatalogFromCSV, resolvePhoneId } from "@/lib/csv-loader";
+import { IngestOptions, IngestionReport, IngestionResult } from "@/lib/ingestion";
+import { deepFreeze } from "@/lib/file-cache";
+
+/**
+ * Merge two records of the same phone.
+ * Regions are combined; the primary record wins wherever both define a value.
+ */
+export function mergePhoneRecords(primary: Phone, secondary: Phone): Phone {
+  const regions = { ...primary.regions };
+  for (const [region, entry] of Object.entries(secondary.regions)) {
+    regions[region] ??= entry;
+  }
+
+  return {
+    ...secondary,
+    ...primary,
+    specs: { ...secondary.specs, ...primary.specs },
+    regions,
+    key_features: primary.key_features ?? secondary.key_features,
+  };
+}
+
+/**
+ * Last merged catalog, reused while every source returns the same cached result.
+ * Merged phones are frozen like the source records they are built from.
+ */
+let merged: { sources: IngestionResult<Phone>[]; byId: Map<string, Phone> } | undefined;
+
+function getMergedCatalog(options: IngestOptions) {
+  const sources = [ingestPhoneDatabase(options), ingestPhoneCatalogFromCSV(options)];
+  if (merged && sources.every((source, index) => source === merged?.sources[index])) {
+    return merged;
+  }
+
+  const byId = new Map<string, Phone>();
+  for (const phone of sources.flatMap(source => source.records)) {
+    const existing = byId.get(phone.id);
+    byId.set(phone.id, existing ? mergePhoneRecords(existing, phone) : phone);
+  }
+
+  deepFreeze([...byId.values()]);
+  merged = { sources, byId };
+  return merged;
+}
+
+/**
+ * Validate and merge every catalog source, returning one report per source.
+ * In strict mode the first source with rejected rows throws an IngestionError.
+ */
+export function ingestCatalog(options: IngestOptions = {}): { phones: Phone[]; reports: IngestionReport[] } {
+  const { sources, byId } = getMergedCatalog(options);
+  return { phones: [...byId.values()], reports: sources.map(source => source.report) };
+}
+
+/**
+ * Load the international referee catalog: the JSON database plus the Indian CSV feed.
+ * Phones listed in both sources are merged by id into one record; the CSV contributes
+ * its IN region and any specs the JSON record lacks. Sources are cached, and rejected
+ * rows are logged as warnings when a source is loaded.
+ */
+export function loadCatalog(): Phone[] {
+  return ingestCatalog().phones;
+}
+
+/**
+ * Get a phone from the merged catalog by id, current or former
+ */
+export function getCatalogPhone(id: string): Phone | undefined {
+  return getMergedCatalog({}).byId.get(resolvePhoneId(id));
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { formatPhonesCSV, getPhoneDataById, loadPhonesFromCSV, parsePhonesCSV } from "./csv-loader";
+import { getCatalogPhone } from "./catalog";
+
+describe("phone CSV feed round trip", () => {
+  it("parses the formatted feed back to the same phones", () => {
+    const phones = loadPhonesFromCSV();
+    const { records, report } = parsePhonesCSV(formatPhonesCSV(phones));
+
+    expect(report.rejected_rows).toBe(0);
+    expect(records).toEqual(phones);
+  });
+
+  it("keeps separators, quotes, line breaks and surrounding spaces in text columns", () => {
+    const [first] = loadPhonesFromCSV();
+    const phone = {
+      ...first!,
+      processor: 'Snapdragon 8 Gen 3, "for Galaxy"',
+      rear_camera_details: "50 MP main\n12 MP ultrawide",
+      key_features: " padded | x ",
+    };
+
+    expect(parsePhonesCSV(formatPhonesCSV([phone])).records).toEqual([phone]);
+  });
+
+  it("still ignores spaces around numbers and booleans", () => {
+    const text = formatPhonesCSV(loadPhonesFromCSV().slice(0, 1))
+      .replace(/,true,/, ", true ,")
+      .replace(/,(\d+),/, ", $1 ,");
+
+    expect(text).toContain(", true ,");
+    expect(text).toMatch(/, \d+ ,/);
+    expect(parsePhonesCSV(text).records).toEqual(loadPhonesFromCSV().slice(0, 1));
+  });
+});
+
+describe("former phone ids", () => {
+  it("resolve to the renamed phones", () => {
+    expect(getPhoneDataById("google-pixel-8a")?.id).toBe("pixel-8a");
+    expect(getCatalogPhone("google-pixel-8-pro")?.id).toBe("pixel-8-pro");
+  });
+});
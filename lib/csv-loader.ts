@@ -1,137 +1,294 @@
 import fs from "fs";
 import path from "path";
+import { StringDecoder } from "string_decoder";
+import { Phone, PhoneSchema } from "@/core/referee-engine/types";
+import {
+  CsvParseError,
+  CsvRow,
+  csvBoolean,
+  csvInteger,
+  csvNumber,
+  csvRequiredText,
+  csvRowSchema,
+  csvText,
+  formatCSVRows,
+  parseCSV,
+} from "@/lib/csv";
+import {
+  IngestOptions,
+  IngestionResult,
+  SourceRow,
+  enforceStrict,
+  ingestRows,
+  warnIngestionIssues,
+} from "@/lib/ingestion";
+import { cacheByFileChange, deepFreeze } from "@/lib/file-cache";
 
-export interface PhoneData {
-  id: string;
-  name: string;
-  brand: string;
-  price_inr: number;
-  price_range: string;
-  battery_mah: number;
-  camera_mp: number;
-  screen_inches: number;
-  ram_gb: number;
-  storage_gb: number;
-  processor: string;
-  has_5g: boolean;
-  weight_grams: number;
-  refresh_rate: number;
-  fast_charging_w: number;
-  display_type: string;
-  os: string;
-  rear_camera_details: string;
-  front_camera_mp: number;
-  key_features: string;
-}
-
-/**
- * Parse CSV file and return phone data
+export const CSV_SOURCE = "phones-india.csv";
+
+/**
+ * Typed column mapping of the Indian CSV feed, in file column order
  */
-export function loadPhonesFromCSV(): PhoneData[] {
-  const csvPath = path.join(process.cwd(), "lib", "data", "phones-india.csv");
-  const csvContent = fs.readFileSync(csvPath, "utf-8");
-
-  const lines = csvContent.trim().split("\n");
-  if (lines.length === 0) return [];
-  
-  const headers = lines[0]?.split(",") || [];
-  if (headers.length === 0) return [];
-
-  const phones: PhoneData[] = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    if (!line) continue;
-    const values = parseCSVLine(line);
-    
-    if (values.length !== headers.length) {
-      console.warn(`Skipping line ${i + 1}: column mismatch`);
-      continue;
+export const PHONE_CSV_COLUMNS = {
+  id: csvRequiredText,
+  name: csvRequiredText,
+  brand: csvRequiredText,
+  price_inr: csvNumber,
+  price_range: csvRequiredText,
+  battery_mah: csvInteger,
+  camera_mp: csvNumber,
+  screen_inches: csvNumber,
+  ram_gb: csvInteger,
+  storage_gb: csvInteger,
+  processor: csvText,
+  has_5g: csvBoolean,
+  weight_grams: csvNumber,
+  refresh_rate: csvInteger,
+  fast_charging_w: csvNumber,
+  display_type: csvText,
+  os: csvText,
+  rear_camera_details: csvText,
+  front_camera_mp: csvNumber,
+  key_features: csvText,
+};
+
+export const PhoneDataSchema = csvRowSchema(PHONE_CSV_COLUMNS);
+
+/**
+ * Former ids of CSV phones renamed to match their phones.json records,
+ * kept so lookups and saved links by the old id still resolve
+ */
+export const PHONE_ID_ALIASES: Record<string, string> = {
+  "google-pixel-8a": "pixel-8a",
+  "google-pixel-8-pro": "pixel-8-pro",
+};
+
+/**
+ * Current id of a phone, following a former id to its replacement
+ */
+export function resolvePhoneId(id: string): string {
+  return PHONE_ID_ALIASES[id] ?? id;
+}
+
+export type PhoneData = CsvRow<typeof PHONE_CSV_COLUMNS>;
+
+function getCSVPath(): string {
+  return path.join(process.cwd(), "lib", "data", CSV_SOURCE);
+}
+
+/**
+ * Read a UTF-8 file in chunks without splitting multi-byte characters
+ */
+function* readFileChunks(filePath: string, chunkSize = 64 * 1024): Generator<string> {
+  const fd = fs.openSync(filePath, "r");
+  const decoder = new StringDecoder("utf8");
+  const buffer = Buffer.alloc(chunkSize);
+
+  try {
+    let bytesRead: number;
+    while ((bytesRead = fs.readSync(fd, buffer, 0, chunkSize, null)) > 0) {
+      yield decoder.write(buffer.subarray(0, bytesRead));
     }
+    const rest = decoder.end();
+    if (rest) yield rest;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Read CSV text in the feed's format as raw rows keyed by header, numbered by the line each starts on.
+ * Rows whose column count differs from the header are flagged rather than dropped;
+ * malformed CSV flags the row where parsing stopped.
+ */
+function readCSVRows(input: string | Iterable<string>): SourceRow[] {
+  const rows: SourceRow[] = [];
+  let headers: string[] | undefined;
 
-    const phone: any = {};
-    headers.forEach((header, index) => {
-      const value = values[index];
-      
-      // Skip empty values
-      if (!value || !header) return;
-      
-      // Type conversion based on header
-      if (header === "price_inr" || header.includes("battery") || 
-          header.includes("camera") || header.includes("ram") || 
-          header.includes("storage") || header.includes("weight") ||
-          header.includes("refresh") || header.includes("charging") ||
-          header.includes("screen") || header.includes("front_camera")) {
-        phone[header] = parseFloat(value);
-      } else if (header === "has_5g") {
-        phone[header] = value.toLowerCase() === "true";
-      } else {
-        phone[header] = value;
+  try {
+    for (const { line, fields } of parseCSV(input)) {
+      if (!headers) {
+        headers = fields.map(header => header.trim());
+        continue;
       }
-    });
 
-    phones.push(phone as PhoneData);
+      rows.push({
+        row: line,
+        data: Object.fromEntries(headers.map((header, index) => [header, fields[index] ?? ""])),
+        problem: fields.length !== headers.length
+          ? `Expected ${headers.length} columns, found ${fields.length}`
+          : undefined,
+      });
+    }
+  } catch (error) {
+    if (!(error instanceof CsvParseError)) throw error;
+    rows.push({ row: error.line, data: undefined, problem: error.message });
   }
 
-  return phones;
+  return rows;
 }
 
 /**
- * Parse a CSV line handling quoted values
+ * The parsed CSV feed with its query indexes, shared by every caller
  */
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = "";
-  let inQuotes = false;
+interface CSVCatalog {
+  rows: SourceRow[];
+  data: IngestionResult<PhoneData>;
+  byId: Map<string, PhoneData>;
+  /** Keyed by lower-case brand */
+  byBrand: Map<string, PhoneData[]>;
+  byPriceRange: Map<string, PhoneData[]>;
+  /** Canonical Phone records, validated on first use */
+  phones?: IngestionResult<Phone>;
+}
 
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
+function groupBy(phones: PhoneData[], key: (phone: PhoneData) => string): Map<string, PhoneData[]> {
+  const groups = new Map<string, PhoneData[]>();
+  for (const phone of phones) {
+    groups.set(key(phone), [...(groups.get(key(phone)) ?? []), phone]);
+  }
+  return groups;
+}
 
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === "," && !inQuotes) {
-      result.push(current.trim());
-      current = "";
-    } else {
-      current += char;
-    }
+function buildCSVCatalog(): CSVCatalog {
+  const rows = readCSVRows(readFileChunks(getCSVPath()));
+  const data = ingestRows(CSV_SOURCE, rows, PhoneDataSchema);
+  warnIngestionIssues(data.report);
+
+  const phones = deepFreeze(data.records);
+  return {
+    rows,
+    data,
+    byId: new Map(phones.map(phone => [phone.id, phone])),
+    byBrand: groupBy(phones, phone => phone.brand.toLowerCase()),
+    byPriceRange: groupBy(phones, phone => phone.price_range),
+  };
+}
+
+/**
+ * The CSV feed is parsed once and re-read only after the file changes.
+ * Cached rows and phones are frozen, as every caller shares them.
+ */
+const getCSVCatalog = cacheByFileChange(getCSVPath, buildCSVCatalog);
+
+/**
+ * Validate the CSV feed against its column mapping, reporting every rejected row
+ */
+export function ingestPhonesFromCSV(options: IngestOptions = {}): IngestionResult<PhoneData> {
+  return enforceStrict(getCSVCatalog().data, options);
+}
+
+/**
+ * Phone data from the CSV file; rejected rows are logged as warnings when the file is loaded
+ */
+export function loadPhonesFromCSV(): PhoneData[] {
+  return [...getCSVCatalog().data.records];
+}
+
+/**
+ * Write phone data in the CSV feed's format; parsing the output gives the same rows back
+ */
+export function formatPhonesCSV(phones: PhoneData[]): string {
+  return formatCSVRows(phones, PHONE_CSV_COLUMNS, "\n");
+}
+
+/**
+ * Validate CSV text in the feed's format, the inverse of formatPhonesCSV
+ */
+export function parsePhonesCSV(text: string): IngestionResult<PhoneData> {
+  return ingestRows(CSV_SOURCE, readCSVRows(text), PhoneDataSchema);
+}
+
+/**
+ * Convert a CSV row into the canonical Phone model used by the referee engine
+ * All CSV phones are sold in India and priced in INR
+ */
+export function toPhone(data: PhoneData): Phone {
+  return {
+    id: data.id,
+    name: data.name,
+    brand: data.brand,
+    specs: {
+      battery_mah: data.battery_mah,
+      camera_mp: data.camera_mp,
+      screen_inches: data.screen_inches,
+      has_5g: data.has_5g,
+      storage_gb: data.storage_gb,
+      weight_grams: data.weight_grams,
+      ram_gb: data.ram_gb,
+      refresh_rate_hz: data.refresh_rate,
+      fast_charging_w: data.fast_charging_w,
+      front_camera_mp: data.front_camera_mp,
+      processor: data.processor,
+      display_type: data.display_type,
+      os: data.os,
+      rear_camera_details: data.rear_camera_details,
+    },
+    regions: {
+      IN: { status: "available", price: { amount: data.price_inr, currency: "INR" } },
+    },
+    key_features: data.key_features
+      ? data.key_features.split(/[|\r\n]/).map(f => f.trim()).filter(Boolean)
+      : undefined,
+  };
+}
+
+/**
+ * Validate the CSV feed as canonical Phone records: each row must satisfy
+ * both the column mapping and the Phone schema
+ */
+export function ingestPhoneCatalogFromCSV(options: IngestOptions = {}): IngestionResult<Phone> {
+  const catalog = getCSVCatalog();
+  if (!catalog.phones) {
+    const schema = PhoneDataSchema.transform(toPhone).pipe(PhoneSchema);
+    catalog.phones = ingestRows(CSV_SOURCE, catalog.rows, schema);
+    warnIngestionIssues(catalog.phones.report);
+    deepFreeze(catalog.phones.records);
   }
+  return enforceStrict(catalog.phones, options);
+}
 
-  result.push(current.trim());
-  return result;
+/**
+ * Load the Indian CSV catalog as validated Phone objects
+ * so it can be evaluated by the referee engine
+ */
+export function loadPhoneCatalogFromCSV(): Phone[] {
+  return [...ingestPhoneCatalogFromCSV().records];
+}
+
+/**
+ * Get a CSV phone by id, current or former
+ */
+export function getPhoneDataById(id: string): PhoneData | undefined {
+  return getCSVCatalog().byId.get(resolvePhoneId(id));
 }
 
 /**
  * Get phones by price range
  */
 export function getPhonesByPriceRange(priceRange: string): PhoneData[] {
-  const phones = loadPhonesFromCSV();
-  return phones.filter(phone => phone.price_range === priceRange);
+  return [...(getCSVCatalog().byPriceRange.get(priceRange) ?? [])];
 }
 
 /**
- * Get phones within budget
+ * Get phones within budget, in file order
  */
 export function getPhonesInBudget(maxBudget: number): PhoneData[] {
-  const phones = loadPhonesFromCSV();
-  return phones.filter(phone => phone.price_inr <= maxBudget);
+  return getCSVCatalog().data.records.filter(phone => phone.price_inr <= maxBudget);
 }
 
 /**
  * Get phones by brand
  */
 export function getPhonesByBrand(brand: string): PhoneData[] {
-  const phones = loadPhonesFromCSV();
-  return phones.filter(phone => 
-    phone.brand.toLowerCase() === brand.toLowerCase()
-  );
+  return [...(getCSVCatalog().byBrand.get(brand.toLowerCase()) ?? [])];
 }
 
 /**
  * Search phones by name
  */
 export function searchPhones(query: string): PhoneData[] {
-  const phones = loadPhonesFromCSV();
+  const phones = getCSVCatalog().data.records;
   const lowerQuery = query.toLowerCase();
   return phones.filter(phone => 
     phone.name.toLowerCase().includes(lowerQuery) ||
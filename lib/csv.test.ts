@@ -0,0 +1,91 @@
+import { describe, expect } from "vitest";
+import { fc, it } from "@fast-check/vitest";
+import { CsvParseError, formatCSVField, parseCSV, writeCSV } from "./csv";
+
+const records = (text: string | Iterable<string>) => [...parseCSV(text)].map(record => record.fields);
+
+describe("parseCSV", () => {
+  it("keeps commas inside quoted fields", () => {
+    expect(records('id,name\npixel-8,"Pixel 8, 128 GB"\n')).toEqual([
+      ["id", "name"],
+      ["pixel-8", "Pixel 8, 128 GB"],
+    ]);
+  });
+
+  it('unescapes doubled quotes ("") inside quoted fields', () => {
+    expect(records('"6.1"" OLED","say ""hi"""')).toEqual([['6.1" OLED', 'say "hi"']]);
+  });
+
+  it("accepts CRLF and LF line endings and skips blank lines", () => {
+    expect(records("a,b\r\n1,2\r\n\r\n3,4\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+      ["3", "4"],
+    ]);
+  });
+
+  it("keeps line breaks inside quoted fields and reports the line each record starts on", () => {
+    const parsed = [...parseCSV('id,notes\r\nx,"line one\r\nline two"\r\ny,plain\r\n')];
+    expect(parsed).toEqual([
+      { line: 1, fields: ["id", "notes"] },
+      { line: 2, fields: ["x", "line one\r\nline two"] },
+      { line: 4, fields: ["y", "plain"] },
+    ]);
+  });
+
+  it("strips a leading byte order mark and keeps empty fields", () => {
+    expect(records("\uFEFFa,,c\n,,\n")).toEqual([
+      ["a", "", "c"],
+      ["", "", ""],
+    ]);
+  });
+
+  it("keeps a quote inside an unquoted field literally", () => {
+    expect(records('6.1" screen,ok')).toEqual([['6.1" screen', "ok"]]);
+  });
+
+  it("parses a record split across chunks at any point", () => {
+    expect(records(['id,na', 'me\r', '\nx,"a,', '""b""', '"\r\n'])).toEqual([
+      ["id", "name"],
+      ["x", 'a,"b"'],
+    ]);
+  });
+
+  it("rejects an unterminated quoted field with the line it starts on", () => {
+    expect(() => records('a,b\nx,"open\nstill open')).toThrow(CsvParseError);
+    expect(() => records('a,b\nx,"open\nstill open')).toThrow("Unterminated quoted field (line 2)");
+  });
+});
+
+describe("formatCSVField", () => {
+  it("quotes only fields that need it", () => {
+    expect(formatCSVField("plain")).toBe("plain");
+    expect(formatCSVField("a,b")).toBe('"a,b"');
+    expect(formatCSVField('6.1"')).toBe('"6.1"""');
+    expect(formatCSVField("two\nlines")).toBe('"two\nlines"');
+    expect(formatCSVField(" padded ")).toBe('" padded "');
+  });
+});
+
+describe("writeCSV round trip", () => {
+  // A record of one empty field is a blank line, which the reader skips
+  const record = fc
+    .array(fc.string({ unit: fc.constantFrom("a", "1", " ", ",", '"', "\r", "\n", "é") }), { minLength: 1, maxLength: 5 })
+    .filter(fields => !(fields.length === 1 && fields[0] === ""));
+
+  it.prop([fc.array(record, { maxLength: 10 }), fc.constantFrom("\r\n" as const, "\n" as const)])(
+    "parses written records back unchanged",
+    (written, newline) => {
+      expect(records([...writeCSV(written, newline)].join(""))).toEqual(written);
+    }
+  );
+
+  it.prop([fc.array(record, { maxLength: 10 }), fc.integer({ min: 1, max: 7 })])(
+    "parses the same records however the text is chunked",
+    (written, size) => {
+      const text = [...writeCSV(written)].join("");
+      const chunks = Array.from({ length: Math.ceil(text.length / size) }, (_, i) => text.slice(i * size, (i + 1) * size));
+      expect(records(chunks)).toEqual(written);
+    }
+  );
+});
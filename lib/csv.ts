@@ -0,0 +1,194 @@
+import { z } from "zod";
+
+/**
+ * One parsed CSV record; `line` is the line it starts on (1-based)
+ */
+export interface CsvRecord {
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Thrown for input that is not valid CSV, such as an unterminated quoted field
+ */
+export class CsvParseError extends Error {
+  constructor(message: string, readonly line: number) {
+    super(`${message} (line ${line})`);
+    this.name = "CsvParseError";
+  }
+}
+
+/**
+ * Stream records from RFC 4180 CSV text, given whole or in chunks.
+ * Handles quoted fields with escaped quotes ("") and embedded newlines,
+ * CRLF or LF line endings and a leading byte order mark; blank lines are skipped.
+ * A quote inside an unquoted field is kept literally.
+ */
+export function* parseCSV(input: string | Iterable<string>): Generator<CsvRecord> {
+  const chunks = typeof input === "string" ? [input] : input;
+
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  // Just left a quoted section: a second quote is an escaped quote
+  let closedQuote = false;
+  let fieldStart = true;
+  let recordStarted = false;
+  let line = 1;
+  let recordLine = 1;
+  let previous = "";
+  let first = true;
+
+  for (const chunk of chunks) {
+    for (const char of chunk) {
+      if (first) {
+        first = false;
+        if (char === "\uFEFF") continue;
+      }
+
+      let endRecord = false;
+      if (quoted) {
+        if (char === '"') {
+          quoted = false;
+          closedQuote = true;
+        } else {
+          field += char;
+        }
+      } else if (closedQuote && char === '"') {
+        field += '"';
+        quoted = true;
+        closedQuote = false;
+      } else {
+        closedQuote = false;
+        if (char === '"' && fieldStart) {
+          quoted = true;
+          fieldStart = false;
+          recordStarted = true;
+        } else if (char === ",") {
+          fields.push(field);
+          field = "";
+          fieldStart = true;
+          recordStarted = true;
+        } else if (char === "\r" || char === "\n") {
+          // The "\n" of a CRLF pair already ended its record
+          endRecord = !(char === "\n" && previous === "\r");
+        } else {
+          field += char;
+          fieldStart = false;
+          recordStarted = true;
+        }
+      }
+
+      if (char === "\r" || (char === "\n" && previous !== "\r")) line++;
+      previous = char;
+
+      if (endRecord) {
+        if (recordStarted) {
+          fields.push(field);
+          yield { line: recordLine, fields };
+        }
+        fields = [];
+        field = "";
+        fieldStart = true;
+        recordStarted = false;
+        recordLine = line;
+      }
+    }
+  }
+
+  if (quoted) {
+    throw new CsvParseError("Unterminated quoted field", recordLine);
+  }
+  if (recordStarted) {
+    fields.push(field);
+    yield { line: recordLine, fields };
+  }
+}
+
+/**
+ * Quote a field when it contains a delimiter, quote, line break or surrounding spaces
+ */
+export function formatCSVField(value: string): string {
+  return /[",\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Stream CSV text, one record per chunk
+ */
+export function* writeCSV(records: Iterable<string[]>, newline: "\r\n" | "\n" = "\r\n"): Generator<string> {
+  for (const fields of records) {
+    yield fields.map(formatCSVField).join(",") + newline;
+  }
+}
+
+// ============================================
+// Typed column mappings
+// ============================================
+
+/**
+ * How one column is parsed from and written back to text
+ */
+export interface CsvColumn<T> {
+  schema: z.ZodType<T, z.ZodTypeDef, string>;
+  format(value: T): string;
+}
+
+export type CsvColumns = Record<string, CsvColumn<unknown>>;
+
+/**
+ * Row type described by a column mapping
+ */
+export type CsvRow<C extends CsvColumns> = {
+  [K in keyof C]: C[K] extends CsvColumn<infer T> ? T : never;
+};
+
+// Text keeps surrounding spaces so written values read back unchanged;
+// numbers and booleans ignore them
+const trimmed = z.string().trim();
+const nonEmpty = trimmed.pipe(z.string().min(1, "Required"));
+
+export const csvText: CsvColumn<string> = { schema: z.string(), format: value => value };
+
+export const csvRequiredText: CsvColumn<string> = {
+  schema: z.string().refine(value => value.trim() !== "", "Required"),
+  format: value => value,
+};
+
+export const csvNumber: CsvColumn<number> = {
+  schema: nonEmpty.pipe(z.coerce.number().positive()),
+  format: value => String(value),
+};
+
+export const csvInteger: CsvColumn<number> = {
+  schema: nonEmpty.pipe(z.coerce.number().int().positive()),
+  format: value => String(value),
+};
+
+export const csvBoolean: CsvColumn<boolean> = {
+  schema: nonEmpty
+    .transform(value => value.toLowerCase())
+    .pipe(z.enum(["true", "false"], { message: 'Expected "true" or "false"' }))
+    .transform(value => value === "true"),
+  format: value => String(value),
+};
+
+/**
+ * Schema validating a record keyed by header against a column mapping
+ */
+export function csvRowSchema<C extends CsvColumns>(columns: C): z.ZodType<CsvRow<C>, z.ZodTypeDef, unknown> {
+  const shape = Object.fromEntries(Object.entries(columns).map(([header, column]) => [header, column.schema]));
+  return z.object(shape) as unknown as z.ZodType<CsvRow<C>, z.ZodTypeDef, unknown>;
+}
+
+/**
+ * Write rows as CSV text with a header line, in the mapping's column order
+ */
+export function formatCSVRows<C extends CsvColumns>(
+  rows: CsvRow<C>[],
+  columns: C,
+  newline: "\r\n" | "\n" = "\r\n"
+): string {
+  const headers = Object.keys(columns) as (keyof C & string)[];
+  const records = [headers, ...rows.map(row => headers.map(header => columns[header]!.format(row[header])))];
+  return [...writeCSV(records, newline)].join("");
+}
@@ -0,0 +1,85 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { cacheByFileChange, deepFreeze } from "./file-cache";
+import { loadPhoneDatabase } from "./json-loader";
+import { getPhoneDataById, getPhonesInBudget, loadPhonesFromCSV } from "./csv-loader";
+import { loadCatalog } from "./catalog";
+
+describe("cacheByFileChange", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "file-cache-"));
+    file = path.join(dir, "phones.csv");
+    fs.writeFileSync(file, "id\npixel-8\n");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("builds once while the file is unchanged", () => {
+    const build = vi.fn(() => fs.readFileSync(file, "utf-8"));
+    const get = cacheByFileChange(() => file, build);
+
+    expect(get()).toBe("id\npixel-8\n");
+    expect(get()).toBe("id\npixel-8\n");
+    expect(build).toHaveBeenCalledTimes(1);
+  });
+
+  it("rebuilds after the file's size or modification time changes", () => {
+    const build = vi.fn(() => fs.readFileSync(file, "utf-8"));
+    const get = cacheByFileChange(() => file, build);
+    get();
+
+    fs.writeFileSync(file, "id\npixel-8\npixel-9\n");
+    expect(get()).toBe("id\npixel-8\npixel-9\n");
+
+    // Same size, later modification time
+    fs.writeFileSync(file, "id\npixel-8\npixel-7\n");
+    const later = new Date(Date.now() + 60_000);
+    fs.utimesSync(file, later, later);
+    expect(get()).toBe("id\npixel-8\npixel-7\n");
+
+    expect(build).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("deepFreeze", () => {
+  it("freezes nested objects and arrays", () => {
+    const value = deepFreeze({ regions: { US: { price: { amount: 499 } } }, features: ["5G"] });
+
+    expect(Object.isFrozen(value.regions.US.price)).toBe(true);
+    expect(Object.isFrozen(value.features)).toBe(true);
+  });
+});
+
+describe("cached catalog sources", () => {
+  it("hand out phones that callers cannot change", () => {
+    const [jsonPhone] = loadPhoneDatabase();
+    const [csvPhone] = loadPhonesFromCSV();
+    const [merged] = loadCatalog();
+
+    expect(() => {
+      jsonPhone!.specs.battery_mah = 1;
+    }).toThrow(TypeError);
+    expect(() => {
+      csvPhone!.price_inr = 1;
+    }).toThrow(TypeError);
+    expect(() => {
+      merged!.regions = {};
+    }).toThrow(TypeError);
+  });
+
+  it("return copies of cached lists", () => {
+    const phones = loadPhonesFromCSV();
+    phones.length = 0;
+
+    expect(loadPhonesFromCSV().length).toBeGreaterThan(0);
+    expect(getPhonesInBudget(Infinity)).toEqual(loadPhonesFromCSV());
+    expect(getPhoneDataById(loadPhonesFromCSV()[0]!.id)).toBe(loadPhonesFromCSV()[0]);
+  });
+});
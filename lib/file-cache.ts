@@ -0,0 +1,32 @@
+import fs from "fs";
+
+/**
+ * Memoize a value derived from a file. The value is rebuilt on the next call
+ * after the file's modification time or size changes, so edits are picked up
+ * without re-reading the file on every call.
+ */
+export function cacheByFileChange<T>(filePath: () => string, build: () => T): () => T {
+  let cached: { mtimeMs: number; size: number; value: T } | undefined;
+
+  return () => {
+    const { mtimeMs, size } = fs.statSync(filePath());
+    if (!cached || cached.mtimeMs !== mtimeMs || cached.size !== size) {
+      cached = { mtimeMs, size, value: build() };
+    }
+    return cached.value;
+  };
+}
+
+/**
+ * Freeze a cached value and everything it references, so callers sharing it
+ * cannot change what later callers see
+ */
+export function deepFreeze<T>(value: T): T {
+  if (value !== null && typeof value === "object" && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    for (const member of Object.values(value)) {
+      deepFreeze(member);
+    }
+  }
+  return value;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { enforceStrict, formatIngestionIssues, IngestionError, ingestRows, SourceRow } from "./ingestion";
+
+const RecordSchema = z.object({
+  id: z.string().min(1),
+  battery_mah: z.number().positive(),
+});
+
+const rows: SourceRow[] = [
+  { row: 1, data: { id: "pixel-8", battery_mah: 4575 } },
+  { row: 2, data: { id: "broken", battery_mah: "lots" } },
+  { row: 3, data: { id: "pixel-8", battery_mah: 5000 } },
+  { row: 4, data: { battery_mah: -1 } },
+  { row: 5, data: { id: "short-row" }, problem: "Expected 2 columns, found 1" },
+  { row: 6, data: { id: "iphone-15", battery_mah: 3349 } },
+];
+
+describe("ingestRows", () => {
+  it("accepts valid rows and reports every rejected row by row and field", () => {
+    const { records, report } = ingestRows("phones.json", rows, RecordSchema);
+
+    expect(records.map(r => r.id)).toEqual(["pixel-8", "iphone-15"]);
+    expect(report).toMatchObject({
+      source: "phones.json",
+      total_rows: 6,
+      accepted_rows: 2,
+      rejected_rows: 4,
+      duplicate_ids: ["pixel-8"],
+    });
+    expect(report.issues.map(({ row, id, field }) => ({ row, id, field }))).toEqual([
+      { row: 2, id: "broken", field: "battery_mah" },
+      { row: 3, id: "pixel-8", field: "id" },
+      { row: 4, id: undefined, field: "id" },
+      { row: 4, id: undefined, field: "battery_mah" },
+      { row: 5, id: "short-row", field: "(row)" },
+    ]);
+  });
+
+  it("keeps the first occurrence of a duplicate id", () => {
+    const { records, report } = ingestRows("phones.json", rows, RecordSchema);
+
+    expect(records.find(r => r.id === "pixel-8")?.battery_mah).toBe(4575);
+    expect(report.issues.find(i => i.row === 3)?.message).toBe('Duplicate id "pixel-8" (first seen in row 1)');
+  });
+
+  it("formats one line per issue naming the source, row, phone and field", () => {
+    const { report } = ingestRows("phones.json", rows, RecordSchema);
+
+    expect(formatIngestionIssues(report)[0]).toBe(
+      "phones.json row 2 (broken) battery_mah: Expected number, received string"
+    );
+  });
+});
+
+describe("strict mode", () => {
+  it("throws an IngestionError carrying the report when any row is rejected", () => {
+    let error: unknown;
+    try {
+      ingestRows("phones.json", rows, RecordSchema, { strict: true });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(IngestionError);
+    expect((error as IngestionError).message).toBe("phones.json: 4 of 6 rows rejected");
+    expect((error as IngestionError).report.rejected_rows).toBe(4);
+  });
+
+  it("passes clean sources through unchanged", () => {
+    const clean = rows.filter(r => r.row === 1 || r.row === 6);
+    const result = ingestRows("phones.json", clean, RecordSchema, { strict: true });
+
+    expect(result.report.rejected_rows).toBe(0);
+    expect(result.records).toHaveLength(2);
+  });
+
+  it("applies to an ingestion result after the fact, as for cached sources", () => {
+    const result = ingestRows("phones.json", rows, RecordSchema);
+
+    expect(enforceStrict(result, {})).toBe(result);
+    expect(() => enforceStrict(result, { strict: true })).toThrow(IngestionError);
+  });
+});
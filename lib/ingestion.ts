@@ -0,0 +1,161 @@
+import { z } from "zod";
+
+/**
+ * One raw record from a catalog source.
+ * `row` is 1-based: the line number for CSV files, the array position for JSON.
+ */
+export interface SourceRow {
+  row: number;
+  data: unknown;
+  /** Problem found before validation, e.g. a column count mismatch; rejects the row */
+  problem?: string;
+}
+
+/**
+ * A single problem with a source row
+ */
+export interface IngestionIssue {
+  row: number;
+  id?: string;
+  /** Dotted path of the offending field, "(row)" for problems with the row as a whole */
+  field: string;
+  message: string;
+}
+
+/**
+ * Machine-readable outcome of ingesting one source
+ */
+export interface IngestionReport {
+  source: string;
+  total_rows: number;
+  accepted_rows: number;
+  rejected_rows: number;
+  duplicate_ids: string[];
+  issues: IngestionIssue[];
+}
+
+export interface IngestionResult<T> {
+  records: T[];
+  report: IngestionReport;
+}
+
+export interface IngestOptions {
+  /** Throw an IngestionError when any row is rejected */
+  strict?: boolean;
+}
+
+/**
+ * Thrown in strict mode when a source has rejected rows
+ */
+export class IngestionError extends Error {
+  constructor(readonly report: IngestionReport) {
+    super(`${report.source}: ${report.rejected_rows} of ${report.total_rows} rows rejected`);
+    this.name = "IngestionError";
+  }
+}
+
+const ROW_FIELD = "(row)";
+
+/**
+ * Read the id of a raw record, if it has one, so issues can name the phone
+ */
+function rawId(data: unknown): string | undefined {
+  if (typeof data !== "object" || data === null || !("id" in data)) return undefined;
+  const { id } = data as { id: unknown };
+  return typeof id === "string" && id !== "" ? id : undefined;
+}
+
+/**
+ * Validate every row of a source against a schema.
+ * Invalid rows are rejected with one issue per failing field; a row repeating an
+ * earlier row's id is rejected as a duplicate so the first occurrence wins.
+ */
+export function ingestRows<T extends { id: string }>(
+  source: string,
+  rows: SourceRow[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  options: IngestOptions = {}
+): IngestionResult<T> {
+  const records: T[] = [];
+  const issues: IngestionIssue[] = [];
+  const duplicateIds = new Set<string>();
+  const firstRows = new Map<string, number>();
+  let rejected = 0;
+
+  for (const { row, data, problem } of rows) {
+    const id = rawId(data);
+
+    if (problem) {
+      issues.push({ row, id, field: ROW_FIELD, message: problem });
+      rejected++;
+      continue;
+    }
+
+    const parsed = schema.safeParse(data);
+    if (!parsed.success) {
+      for (const error of parsed.error.errors) {
+        issues.push({ row, id, field: error.path.join(".") || ROW_FIELD, message: error.message });
+      }
+      rejected++;
+      continue;
+    }
+
+    const firstRow = firstRows.get(parsed.data.id);
+    if (firstRow !== undefined) {
+      issues.push({
+        row,
+        id: parsed.data.id,
+        field: "id",
+        message: `Duplicate id "${parsed.data.id}" (first seen in row ${firstRow})`,
+      });
+      duplicateIds.add(parsed.data.id);
+      rejected++;
+      continue;
+    }
+
+    firstRows.set(parsed.data.id, row);
+    records.push(parsed.data);
+  }
+
+  const report: IngestionReport = {
+    source,
+    total_rows: rows.length,
+    accepted_rows: records.length,
+    rejected_rows: rejected,
+    duplicate_ids: [...duplicateIds],
+    issues,
+  };
+
+  return enforceStrict({ records, report }, options);
+}
+
+/**
+ * Apply strict mode to an ingestion result, which may have been cached
+ */
+export function enforceStrict<T>(result: IngestionResult<T>, options: IngestOptions): IngestionResult<T> {
+  if (options.strict && result.report.rejected_rows > 0) {
+    throw new IngestionError(result.report);
+  }
+  return result;
+}
+
+/**
+ * One line per issue, e.g. "phones.json row 4 (pixel-8) specs.battery_mah: Expected number, received string"
+ */
+export function formatIngestionIssues(report: IngestionReport): string[] {
+  return report.issues.map(issue => {
+    const id = issue.id ? ` (${issue.id})` : "";
+    return `${report.source} row ${issue.row}${id} ${issue.field}: ${issue.message}`;
+  });
+}
+
+/**
+ * Warn about rejected rows so bad data never disappears unnoticed
+ */
+export function warnIngestionIssues(report: IngestionReport): void {
+  if (report.issues.length === 0) return;
+  console.warn(
+    `${report.source}: rejected ${report.rejected_rows} of ${report.total_rows} rows\n` +
+      formatIngestionIssues(report).map(line => `  ${line}`).join("\n")
+  );
+}
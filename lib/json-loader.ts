@@ -0,0 +1,55 @@
+import fs from "fs";
+import path from "path";
+import { Phone, PhoneSchema } from "@/core/referee-engine/types";
+import {
+  IngestOptions,
+  IngestionResult,
+  enforceStrict,
+  ingestRows,
+  warnIngestionIssues,
+} from "@/lib/ingestion";
+import { cacheByFileChange, deepFreeze } from "@/lib/file-cache";
+
+export const JSON_SOURCE = "phones.json";
+
+function getJSONPath(): string {
+  return path.join(process.cwd(), "lib", "data", JSON_SOURCE);
+}
+
+function buildPhoneDatabase(): { result: IngestionResult<Phone>; byId: Map<string, Phone> } {
+  const records = JSON.parse(fs.readFileSync(getJSONPath(), "utf-8")) as unknown[];
+  const rows = records.map((data, index) => ({ row: index + 1, data }));
+  const result = ingestRows(JSON_SOURCE, rows, PhoneSchema);
+  warnIngestionIssues(result.report);
+
+  deepFreeze(result.records);
+  return { result, byId: new Map(result.records.map(phone => [phone.id, phone])) };
+}
+
+/**
+ * The JSON database is validated and indexed once and re-read only after the file changes.
+ * Cached phones are frozen, as every caller shares them.
+ */
+const getPhoneDatabase = cacheByFileChange(getJSONPath, buildPhoneDatabase);
+
+/**
+ * Validate the JSON phone database, reporting every rejected record by position and field
+ */
+export function ingestPhoneDatabase(options: IngestOptions = {}): IngestionResult<Phone> {
+  return enforceStrict(getPhoneDatabase().result, options);
+}
+
+/**
+ * Loads the phone database from JSON file
+ * @returns Array of validated Phone objects; rejected records are logged as warnings
+ */
+export function loadPhoneDatabase(): Phone[] {
+  return [...getPhoneDatabase().result.records];
+}
+
+/**
+ * Get a phone by ID
+ */
+export function getPhoneById(id: string): Phone | undefined {
+  return getPhoneDatabase().byId.get(id);
+}
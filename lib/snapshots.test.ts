@@ -0,0 +1,89 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Phone } from "@/core/referee-engine/types";
+import { hashPhoneCatalog } from "@/core/referee-engine/versioning";
+import { createCatalogSnapshot, listCatalogSnapshots, loadCatalogSnapshot } from "./snapshots";
+
+const phone = (id: string, price: number): Phone => ({
+  id,
+  name: id,
+  specs: { has_5g: true, battery_mah: 5000 },
+  regions: { US: { status: "available", price: { amount: price, currency: "USD" } } },
+});
+
+const catalog = [phone("alpha", 499), phone("beta", 449)];
+
+let root: string;
+const snapshotPath = (date: string) => path.join(root, "lib", "data", "snapshots", `${date}.json`);
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "snapshots-"));
+  vi.spyOn(process, "cwd").mockReturnValue(root);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe("catalog snapshots", () => {
+  it("stores a catalog under its date and content hash", () => {
+    const snapshot = createCatalogSnapshot(catalog, "2026-09-01");
+
+    expect(snapshot.id).toBe(hashPhoneCatalog(catalog));
+    expect(fs.existsSync(snapshotPath("2026-09-01"))).toBe(true);
+  });
+
+  it("lists stored snapshots oldest first", () => {
+    expect(listCatalogSnapshots()).toEqual([]);
+
+    createCatalogSnapshot(catalog, "2026-10-01");
+    createCatalogSnapshot(catalog.slice(1), "2026-09-01");
+
+    expect(listCatalogSnapshots()).toEqual([
+      { id: hashPhoneCatalog(catalog.slice(1)), date: "2026-09-01", phone_count: 1 },
+      { id: hashPhoneCatalog(catalog), date: "2026-10-01", phone_count: 2 },
+    ]);
+  });
+
+  it("loads a snapshot by date or content hash", () => {
+    const stored = createCatalogSnapshot(catalog, "2026-09-01");
+
+    expect(loadCatalogSnapshot("2026-09-01")).toEqual(stored);
+    expect(loadCatalogSnapshot(stored.id)).toEqual(stored);
+  });
+
+  it("rejects an invalid date", () => {
+    expect(() => createCatalogSnapshot(catalog, "09/01/2026")).toThrow('Invalid snapshot date "09/01/2026"');
+  });
+});
+
+describe("snapshot validation", () => {
+  it("rejects a snapshot whose content no longer matches its id", () => {
+    createCatalogSnapshot(catalog, "2026-09-01");
+    const file = JSON.parse(fs.readFileSync(snapshotPath("2026-09-01"), "utf-8"));
+    file.phones[0].regions.US.price.amount = 399;
+    fs.writeFileSync(snapshotPath("2026-09-01"), JSON.stringify(file));
+
+    expect(() => loadCatalogSnapshot("2026-09-01")).toThrow("Catalog snapshot 2026-09-01.json does not match its id");
+    expect(() => listCatalogSnapshots()).toThrow("does not match its id");
+  });
+
+  it("reports unknown dates and hashes as unknown", () => {
+    createCatalogSnapshot(catalog, "2026-09-01");
+
+    expect(() => loadCatalogSnapshot("2026-10-01")).toThrow('Unknown catalog snapshot "2026-10-01"');
+    expect(() => loadCatalogSnapshot("sha256:missing")).toThrow('Unknown catalog snapshot "sha256:missing"');
+  });
+
+  it("does not read unrelated snapshots when resolving a reference", () => {
+    const stored = createCatalogSnapshot(catalog, "2026-09-01");
+    fs.writeFileSync(snapshotPath("2026-08-01"), "{ not json");
+
+    expect(loadCatalogSnapshot("2026-09-01")).toEqual(stored);
+    expect(loadCatalogSnapshot(stored.id)).toEqual(stored);
+    expect(() => loadCatalogSnapshot("2026-10-01")).toThrow("Unknown catalog snapshot");
+  });
+});
@@ -0,0 +1,121 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { Phone, PhoneSchema } from "@/core/referee-engine/types";
+import { CatalogSnapshot, hashPhoneCatalog } from "@/core/referee-engine/versioning";
+import { ingestRows } from "@/lib/ingestion";
+
+export type { CatalogSnapshot };
+
+export interface CatalogSnapshotSummary {
+  id: string;
+  date: string;
+  phone_count: number;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const SnapshotFileSchema = z.object({
+  id: z.string(),
+  date: z.string().regex(DATE_PATTERN, "Expected YYYY-MM-DD"),
+  phones: z.array(z.unknown()),
+});
+
+function getSnapshotDir(): string {
+  return path.join(process.cwd(), "lib", "data", "snapshots");
+}
+
+/**
+ * Snapshots are stored one per date as lib/data/snapshots/<YYYY-MM-DD>.json
+ */
+function getSnapshotPath(date: string): string {
+  return path.join(getSnapshotDir(), `${date}.json`);
+}
+
+function readSnapshotFile(date: string): CatalogSnapshot {
+  const source = `${date}.json`;
+  const file = SnapshotFileSchema.parse(JSON.parse(fs.readFileSync(getSnapshotPath(date), "utf-8")));
+
+  const rows = file.phones.map((data, index) => ({ row: index + 1, data }));
+  const { records } = ingestRows(source, rows, PhoneSchema, { strict: true });
+
+  if (hashPhoneCatalog(records) !== file.id) {
+    throw new Error(`Catalog snapshot ${source} does not match its id ${file.id}`);
+  }
+  return { id: file.id, date: file.date, phones: records };
+}
+
+/**
+ * Dates of the stored snapshot files, oldest first, without reading them
+ */
+function listSnapshotDates(): string[] {
+  if (!fs.existsSync(getSnapshotDir())) return [];
+
+  return fs
+    .readdirSync(getSnapshotDir())
+    .map(name => name.replace(/\.json$/, ""))
+    .filter(date => DATE_PATTERN.test(date))
+    .sort();
+}
+
+/**
+ * All stored snapshots, oldest first
+ */
+export function listCatalogSnapshots(): CatalogSnapshotSummary[] {
+  return listSnapshotDates().map(date => {
+    const snapshot = readSnapshotFile(date);
+    return { id: snapshot.id, date: snapshot.date, phone_count: snapshot.phones.length };
+  });
+}
+
+/**
+ * The id a stored snapshot claims, or undefined if the file cannot be read as a snapshot.
+ * Used only to find a snapshot by id; the match is validated when it is loaded.
+ */
+function readSnapshotId(date: string): string | undefined {
+  try {
+    const file = SnapshotFileSchema.pick({ id: true }).safeParse(
+      JSON.parse(fs.readFileSync(getSnapshotPath(date), "utf-8"))
+    );
+    return file.success ? file.data.id : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Load a snapshot by date or content hash. Only the matching file is
+ * validated, and its content must still hash to its id.
+ */
+export function loadCatalogSnapshot(ref: string): CatalogSnapshot {
+  if (DATE_PATTERN.test(ref)) {
+    if (fs.existsSync(getSnapshotPath(ref))) {
+      return readSnapshotFile(ref);
+    }
+  } else {
+    const date = listSnapshotDates().find(name => readSnapshotId(name) === ref);
+    if (date) {
+      return readSnapshotFile(date);
+    }
+  }
+
+  throw new Error(`Unknown catalog snapshot "${ref}"`);
+}
+
+/**
+ * Store the catalog as the snapshot for a date (today by default),
+ * replacing any earlier snapshot taken the same day
+ */
+export function createCatalogSnapshot(
+  phones: Phone[],
+  date: string = new Date().toISOString().slice(0, 10)
+): CatalogSnapshot {
+  if (!DATE_PATTERN.test(date)) {
+    throw new Error(`Invalid snapshot date "${date}": expected YYYY-MM-DD`);
+  }
+
+  const snapshot: CatalogSnapshot = { id: hashPhoneCatalog(phones), date, phones };
+  fs.mkdirSync(getSnapshotDir(), { recursive: true });
+  fs.writeFileSync(getSnapshotPath(date), JSON.stringify(snapshot, null, 2) + "\n");
+  return snapshot;
+}
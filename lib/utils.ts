@@ -1,64 +1,75 @@
-import { Phone, PhoneSchema } from "@/core/referee-engine/types";
-import phonesData from "@/lib/data/phones.json";
+import { Currency, Phone, PriceTable, TieBreak } from "@/core/referee-engine/types";
+import { getPhonePrices, resolvePhonePrice } from "@/core/referee-engine/currency";
 
 /**
- * Loads the phone database from JSON file
- * @returns Array of validated Phone objects
+ * Filter phones by region (any listed status)
  */
-export function loadPhoneDatabase(): Phone[] {
-    const phones: Phone[] = [];
-
-    for (const data of phonesData) {
-        const result = PhoneSchema.safeParse(data);
-        if (result.success) {
-            phones.push(result.data);
-        } else {
-            console.warn(`Invalid phone data for ${data.id}:`, result.error.errors);
-        }
-    }
+export function filterByRegion(phones: Phone[], region: string): Phone[] {
+    return phones.filter(phone => phone.regions[region] !== undefined);
+}
 
-    return phones;
+/**
+ * Sort phones by price in the given currency (ascending)
+ * Prices listed in the region win; other currencies are converted offline
+ */
+export function sortByPrice(phones: Phone[], currency: Currency = "USD", region?: string): Phone[] {
+    const price = (phone: Phone) => resolvePhonePrice(phone, currency, region)?.amount ?? Infinity;
+    return [...phones].sort((a, b) => price(a) - price(b));
 }
 
 /**
- * Get a phone by ID
+ * Calculate absolute delta between two values
  */
-export function getPhoneById(id: string): Phone | undefined {
-    const phones = loadPhoneDatabase();
-    return phones.find(p => p.id === id);
+export function calculateDelta(a: number, b: number): number {
+    return Math.abs(a - b);
 }
 
 /**
- * Filter phones by region
+ * Locale used to format each currency
  */
-export function filterByRegion(phones: Phone[], region: string): Phone[] {
-    return phones.filter(phone => phone.region === region);
+const CURRENCY_LOCALES: Record<Currency, string> = {
+    USD: 'en-US',
+    INR: 'en-IN',
+    GBP: 'en-GB',
+    EUR: 'en-IE',
+};
+
+/**
+ * Format price as a currency string (USD by default)
+ */
+export function formatPrice(price: number, currency: Currency = "USD"): string {
+    return new Intl.NumberFormat(CURRENCY_LOCALES[currency], {
+        style: 'currency',
+        currency,
+        minimumFractionDigits: 0,
+        maximumFractionDigits: 0,
+    }).format(price);
 }
 
 /**
- * Sort phones by price (ascending)
+ * Symbol for a currency, e.g. "$" or "₹"
  */
-export function sortByPrice(phones: Phone[]): Phone[] {
-    return [...phones].sort((a, b) => a.price_usd - b.price_usd);
+export function getCurrencySymbol(currency: Currency): string {
+    return formatPrice(0, currency).replace(/[\d.,\s]/g, "");
 }
 
 /**
- * Calculate absolute delta between two values
+ * Format every known price of a phone, e.g. "$799 / ₹79,999"
  */
-export function calculateDelta(a: number, b: number): number {
-    return Math.abs(a - b);
+export function formatPriceTable(prices: PriceTable): string {
+    return (Object.entries(prices) as [Currency, number][])
+        .map(([currency, price]) => formatPrice(price, currency))
+        .join(" / ");
 }
 
 /**
- * Format price as USD string
+ * Format a phone's price in the preferred currency, as listed in the region when given.
+ * Prices converted with the offline exchange-rate table are marked "≈".
  */
-export function formatPrice(price: number): string {
-    return new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: 'USD',
-        minimumFractionDigits: 0,
-        maximumFractionDigits: 0,
-    }).format(price);
+export function formatPhonePrice(phone: Phone, currency: Currency = "USD", region?: string): string {
+    const quote = resolvePhonePrice(phone, currency, region);
+    if (!quote) return formatPriceTable(getPhonePrices(phone));
+    return `${quote.converted_from ? "≈" : ""}${formatPrice(quote.amount, currency)}`;
 }
 
 /**
@@ -72,7 +83,10 @@ export function getDimensionDisplayName(dimension: string): string {
         storage_gb: "Storage",
         weight_grams: "Weight",
         processor_benchmark: "Performance",
-        price_usd: "Price",
+        ram_gb: "RAM",
+        refresh_rate_hz: "Refresh Rate",
+        fast_charging_w: "Charging Speed",
+        price: "Price",
         has_5g: "5G Support",
     };
     return names[dimension] || dimension;
@@ -89,7 +103,45 @@ export function getDimensionUnit(dimension: string): string {
         storage_gb: "GB",
         weight_grams: "g",
         processor_benchmark: "pts",
-        price_usd: "",
+        ram_gb: "GB",
+        refresh_rate_hz: "Hz",
+        fast_charging_w: "W",
+        price: "",
     };
     return units[dimension] || "";
 }
+
+/**
+ * Format a dimension value with its unit (prices use the currency format)
+ */
+export function formatDimensionValue(dimension: string, value: number, currency: Currency = "USD"): string {
+    if (dimension === "price") return formatPrice(value, currency);
+    const unit = getDimensionUnit(dimension);
+    return `${value}${unit ? " " + unit : ""}`;
+}
+
+/**
+ * Format a difference between two dimension values, e.g. "1,200 mAh", "0.25 inches" or "$50"
+ */
+export function formatDimensionDelta(dimension: string, delta: number, currency: Currency = "USD"): string {
+    if (dimension === "price") return formatPrice(delta, currency);
+    const unit = getDimensionUnit(dimension);
+    const amount = delta.toLocaleString("en-US", { maximumFractionDigits: dimension === "screen_inches" ? 2 : 0 });
+    return `${amount}${unit ? " " + unit : ""}`;
+}
+
+/**
+ * Format a percentage difference, "<1%" below half a percent
+ */
+export function formatPercentDelta(percent: number): string {
+    return percent < 0.5 ? "<1%" : `${Math.round(percent)}%`;
+}
+
+/**
+ * Describe how a weighted-score tie was resolved, e.g. "Tied on score; ordered by camera"
+ */
+export function describeTieBreak(tieBreak: TieBreak): string {
+    return tieBreak.decided_by === "shared"
+        ? "Tied on score; shares rank"
+        : `Tied on score; ordered by ${getDimensionDisplayName(tieBreak.decided_by).toLowerCase()}`;
+}